@@ -10,9 +10,9 @@ import {
   Vector3,
 } from 'three';
 import type { BoardState, BoardTile } from '../net/types';
+import { BOARD_COLUMNS, BOARD_ROWS, isGoldGoal } from '../../../shared/rules/board';
 
-export const BOARD_ROWS = 7;
-export const BOARD_COLUMNS = 9;
+export { BOARD_COLUMNS, BOARD_ROWS };
 // Swap aspect so rectangles run horizontally (shorter board depth)
 export const TILE_WIDTH = 1.4;
 export const TILE_HEIGHT = 2.4;
@@ -24,13 +24,21 @@ const hitMaterial = new MeshStandardMaterial({
   side: 2,
 });
 
+export type PlacementHint = 'legal' | 'illegal';
+
+const hintMaterials: Record<PlacementHint, MeshStandardMaterial> = {
+  legal: new MeshStandardMaterial({ color: new Color('#06d6a0'), transparent: true, opacity: 0.3, side: 2 }),
+  illegal: new MeshStandardMaterial({ color: new Color('#ef476f'), transparent: true, opacity: 0.3, side: 2 }),
+};
+const HINT_OVERLAY = 'placement-hint';
+
 const tileColor = (tile: BoardTile): Color => {
   switch (tile.tileType) {
     case 'start':
       return new Color('#118ab2');
     case 'goal':
       if (!tile.revealed) return new Color('#d8c16a');
-      return tile.cardKey === 'gold' ? new Color('#ffd166') : new Color('#0d0d0f');
+      return isGoldGoal(tile.cardKey) ? new Color('#ffd166') : new Color('#0d0d0f');
     case 'path':
       return new Color('#a0a17a');
     case 'blocked':
@@ -92,8 +100,13 @@ const buildPathTexture = (connectors: NonNullable<BoardTile['connectors']>) => {
   return texture;
 };
 
-const buildGoalTexture = (state: 'hidden' | 'gold' | 'coal') => {
-  if (goalTextureCache.has(state)) return goalTextureCache.get(state)!;
+const buildGoalTexture = (
+  state: 'hidden' | 'gold' | 'coal',
+  peeked?: string,
+  connectors?: NonNullable<BoardTile['connectors']>,
+) => {
+  const cacheKey = [state, peeked, connectors && connectorsKey(connectors)].filter(Boolean).join('-');
+  if (goalTextureCache.has(cacheKey)) return goalTextureCache.get(cacheKey)!;
   const size = 256;
   const canvas = document.createElement('canvas');
   canvas.width = size;
@@ -104,12 +117,47 @@ const buildGoalTexture = (state: 'hidden' | 'gold' | 'coal') => {
   if (state === 'hidden') {
     ctx.fillStyle = '#d8c16a';
     ctx.fillRect(0, 0, size, size);
+    if (peeked) {
+      // Private map marker: only this client knows what the goal hides
+      ctx.fillStyle = isGoldGoal(peeked) ? '#ffd166' : '#1c1c1c';
+      ctx.strokeStyle = '#f5f6fa';
+      ctx.lineWidth = 6;
+      ctx.beginPath();
+      ctx.arc(size - 56, 56, 34, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+      ctx.fillStyle = isGoldGoal(peeked) ? '#1c1c1c' : '#f5f6fa';
+      ctx.font = 'bold 26px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText('MAP', size - 56, 58);
+    }
   } else {
     ctx.fillStyle = state === 'gold' ? '#eac350' : '#1c1c1c';
     ctx.fillRect(0, 0, size, size);
     ctx.strokeStyle = state === 'gold' ? '#f8e68c' : '#444';
     ctx.lineWidth = 12;
     ctx.strokeRect(18, 18, size - 36, size - 36);
+    // The card's own tunnel, already turned to fit the tunnel that reached it
+    if (connectors) {
+      const center = size / 2;
+      ctx.strokeStyle = state === 'gold' ? '#b8912c' : '#6c6f73';
+      ctx.lineWidth = 36;
+      ctx.lineCap = 'round';
+      const legs: Array<[boolean, number, number]> = [
+        [connectors.north, 0, -center],
+        [connectors.south, 0, center],
+        [connectors.east, center, 0],
+        [connectors.west, -center, 0],
+      ];
+      legs.forEach(([open, dx, dy]) => {
+        if (!open) return;
+        ctx.beginPath();
+        ctx.moveTo(center, center);
+        ctx.lineTo(center + dx, center + dy);
+        ctx.stroke();
+      });
+    }
     ctx.fillStyle = state === 'gold' ? '#ffeb9f' : '#444';
     ctx.beginPath();
     if (state === 'gold') {
@@ -128,7 +176,7 @@ const buildGoalTexture = (state: 'hidden' | 'gold' | 'coal') => {
   texture.wrapS = texture.wrapT = RepeatWrapping;
   texture.minFilter = NearestFilter;
   texture.magFilter = NearestFilter;
-  goalTextureCache.set(state, texture);
+  goalTextureCache.set(cacheKey, texture);
   return texture;
 };
 
@@ -139,7 +187,7 @@ const buildHitMesh = (tile: BoardTile) => {
   return mesh;
 };
 
-const applyTileVisual = (group: Group, tile: BoardTile) => {
+const applyTileVisual = (group: Group, tile: BoardTile, peeked?: string) => {
   // Clear existing children before re-rendering tile visual
   while (group.children.length) {
     const child = group.children.pop();
@@ -161,8 +209,8 @@ const applyTileVisual = (group: Group, tile: BoardTile) => {
     material.map = buildPathTexture(tile.connectors);
     material.needsUpdate = true;
   } else if (tile.tileType === 'goal') {
-    const state = tile.revealed ? (tile.cardKey === 'gold' ? 'gold' : 'coal') : 'hidden';
-    material.map = buildGoalTexture(state);
+    const state = tile.revealed ? (isGoldGoal(tile.cardKey) ? 'gold' : 'coal') : 'hidden';
+    material.map = buildGoalTexture(state, peeked, tile.revealed ? tile.connectors : undefined);
     material.color = new Color('#ffffff');
     material.needsUpdate = true;
   }
@@ -173,11 +221,11 @@ const applyTileVisual = (group: Group, tile: BoardTile) => {
   group.add(mesh);
 };
 
-const buildTileMesh = (tile: BoardTile) => {
+const buildTileMesh = (tile: BoardTile, peekedGoals: Record<string, string>) => {
   const group = new Group();
   group.position.copy(tileToPosition(tile.row, tile.col));
   group.userData.tile = tile;
-  applyTileVisual(group, tile);
+  applyTileVisual(group, tile, peekedGoals[tile.id]);
   return group;
 };
 
@@ -187,27 +235,48 @@ export const tileToPosition = (row: number, col: number): Vector3 => {
   return new Vector3(col * TILE_WIDTH - offsetX, 0, row * TILE_HEIGHT - offsetZ);
 };
 
-export const createBoardMesh = (state: BoardState) => {
+export const createBoardMesh = (state: BoardState, peekedGoals: Record<string, string> = {}) => {
   const group = new Group();
   const meshMap = new Map<string, Group>();
   state.tiles.forEach((tile) => {
-    const mesh = buildTileMesh(tile);
+    const mesh = buildTileMesh(tile, peekedGoals);
     group.add(mesh);
     meshMap.set(tile.id, mesh);
   });
   return { group, meshMap };
 };
 
-export const updateBoardMesh = (boardState: BoardState, meshMap: Map<string, Group>) => {
+export const updateBoardMesh = (
+  boardState: BoardState,
+  meshMap: Map<string, Group>,
+  peekedGoals: Record<string, string> = {},
+) => {
   boardState.tiles.forEach((tile) => {
     const mesh = meshMap.get(tile.id);
     if (!mesh) return;
     mesh.userData.tile = tile;
     mesh.position.copy(tileToPosition(tile.row, tile.col));
-    applyTileVisual(mesh, tile);
+    applyTileVisual(mesh, tile, peekedGoals[tile.id]);
   });
 };
 
+/** Tints a tile green or red to show whether the selected card may be played there. */
+export const setTileHint = (group: Group, hint?: PlacementHint) => {
+  const existing = group.getObjectByName(HINT_OVERLAY) as Mesh<PlaneGeometry, MeshStandardMaterial> | undefined;
+  if (existing) {
+    group.remove(existing);
+    // Only the cloned material is the overlay's own; the geometry is shared by every tile
+    existing.material.dispose();
+  }
+  if (!hint) return;
+  // Cloned so the hover highlight only lights up a single overlay
+  const overlay = new Mesh(baseGeometry, hintMaterials[hint].clone());
+  overlay.name = HINT_OVERLAY;
+  overlay.rotateX(-Math.PI / 2);
+  overlay.position.y = 0.02;
+  group.add(overlay);
+};
+
 export const boardTileFromIntersection = (object: Mesh): BoardTile | undefined => {
   let current: any = object;
   while (current) {
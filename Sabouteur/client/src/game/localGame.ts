@@ -0,0 +1,314 @@
+import type { Role } from './cards';
+import type {
+  BotDifficulty,
+  CardPlacementPayload,
+  ChooseNuggetPayload,
+  ClientToServerEvents,
+  DiscardPayload,
+  MapPeekPayload,
+  PlayerStateSnapshot,
+  RockfallPayload,
+  ToolEffectPayload,
+  VisualizationMetrics,
+} from '../net/types';
+import type { LocalTransport } from '../net/client';
+import { deliverLocal } from '../net/client';
+import type { BotMove } from '../../../shared/rules/bots';
+import type { MoveResult, TablePlayer } from '../../../shared/rules/table';
+import { GameTable } from '../../../shared/rules/table';
+
+/** Who sits at a local table: a person at this device, or a computer player. */
+export interface LocalSeat {
+  name: string;
+  bot?: BotDifficulty;
+}
+
+type LocalGameOptions = {
+  /** Several people share the screen and `seat` must take the device before play goes on. */
+  onHandover?: (seat: { id: string; name: string }) => void;
+  /** Deals this table's games, in order, the same way each time; each game is shuffled afresh when left out. */
+  seed?: number;
+};
+
+// A local seat has no role before the first deal, and never a null one
+type LocalPlayer = LocalSeat & TablePlayer & { role?: Role };
+
+const ROOM_CODE = 'practice';
+const BOT_TURN_DELAY_MS = 1500;
+
+/**
+ * A whole game played in the browser with the shared rules, standing in for a
+ * server room: it takes what the client emits and answers with the same events,
+ * so the store, scene and panels cannot tell the difference. There is no turn
+ * clock; computer players move after a short pause. With more than one human
+ * seat the screen is passed around, and each seat's secrets are only sent once
+ * that player has taken the device.
+ */
+export class LocalGame extends GameTable<LocalPlayer> implements LocalTransport {
+  // The seat whose hand, role and maps this device is shown; nobody's while it changes hands
+  private viewerId?: string;
+  // The human the device is being passed to
+  private awaitingId?: string;
+  private onHandover?: LocalGameOptions['onHandover'];
+  private botTimer: number | undefined;
+  private nuggetTimer: number | undefined;
+
+  constructor(seats: LocalSeat[], { onHandover, seed }: LocalGameOptions = {}) {
+    super(seed);
+    seats.forEach((seat, index) => {
+      const id = `local-${index + 1}`;
+      this.players.set(id, { ...seat, id, hand: [], brokenTools: [], peekedGoals: {}, score: 0 });
+    });
+    this.onHandover = onHandover;
+    // A lone human keeps the device for the whole game
+    const humans = [...this.players.values()].filter((player) => !player.bot);
+    if (humans.length === 1) this.viewerId = humans[0].id;
+  }
+
+  /** Deals the first round and sends the client its welcome. */
+  start() {
+    this.startNewGame();
+    deliverLocal('welcome', this.welcomePayload());
+    this.handOver();
+  }
+
+  /** The awaited player has confirmed it's them: show them their seat. */
+  takeSeat(playerId: string) {
+    if (playerId !== this.awaitingId) return;
+    this.awaitingId = undefined;
+    this.viewerId = playerId;
+    deliverLocal('welcome', this.welcomePayload());
+    if (this.phase === 'nuggets') this.announceNuggetDraft();
+  }
+
+  /** Cancels any pending computer move; the game is abandoned. */
+  stop() {
+    this.onTurnsOver();
+    this.onDraftOver();
+  }
+
+  handle(event: keyof ClientToServerEvents, ...args: unknown[]) {
+    const [payload] = args;
+    const viewer = this.viewerId ? this.players.get(this.viewerId) : undefined;
+    // Between seats only the next round can be asked for
+    if (!viewer) {
+      if (event === 'restart') this.restart();
+      return;
+    }
+    switch (event) {
+      case 'placeCard':
+        this.playMove(viewer.id, { ...(payload as CardPlacementPayload), type: 'place' });
+        break;
+      case 'rockfall':
+        this.playMove(viewer.id, { ...(payload as RockfallPayload), type: 'rockfall' });
+        break;
+      case 'toolEffect':
+        this.playMove(viewer.id, { ...(payload as ToolEffectPayload), type: 'tool' });
+        break;
+      case 'peekGoal':
+        this.playMove(viewer.id, { ...(payload as MapPeekPayload), type: 'map' });
+        break;
+      case 'discardCard':
+        this.playMove(viewer.id, { ...(payload as DiscardPayload), type: 'discard' });
+        break;
+      case 'chooseNugget': {
+        const result = this.chooseNugget(viewer.id, (payload as ChooseNuggetPayload).index);
+        if (result.error) this.notify(result.error);
+        else this.announceNuggetDraft();
+        break;
+      }
+      case 'requestHand':
+        deliverLocal('handUpdated', [...viewer.hand]);
+        break;
+      case 'sendChat':
+        this.chat(viewer.name, payload as string);
+        break;
+      case 'restart':
+        this.restart();
+        break;
+      default:
+        // Movement, voice and lobby moderation mean nothing at a local table
+        break;
+    }
+  }
+
+  private welcomePayload() {
+    const viewer = this.viewerId ? this.players.get(this.viewerId) : undefined;
+    return {
+      playerId: viewer?.id ?? '',
+      role: viewer?.role,
+      board: this.publicBoard(),
+      players: this.serializePlayers(),
+      hand: [...(viewer?.hand ?? [])],
+      metrics: this.publicMetrics(),
+      peekedGoals: { ...viewer?.peekedGoals },
+      roomCode: ROOM_CODE,
+      // Whoever holds the device runs the table
+      hostId: viewer?.id ?? '',
+      locked: false,
+    };
+  }
+
+  // The human the table is waiting on, if any
+  private waitingOn() {
+    if (this.phase === 'playing') return this.metrics.activePlayerId;
+    if (this.phase === 'nuggets') return this.nuggetPickerId();
+    return undefined;
+  }
+
+  // At a shared screen the next human to act must take the device before anything private is shown
+  private handOver() {
+    const player = this.players.get(this.waitingOn() ?? '');
+    if (!player || player.bot || player.id === this.viewerId || player.id === this.awaitingId) return;
+    this.viewerId = undefined;
+    this.awaitingId = player.id;
+    deliverLocal('welcome', this.welcomePayload());
+    this.onHandover?.({ id: player.id, name: player.name });
+  }
+
+  private chat(from: string, body: string) {
+    deliverLocal('newChat', { id: crypto.randomUUID(), from, body, createdAt: Date.now() });
+  }
+
+  // Server notices; errors only ever concern the viewer's own moves
+  private notify(body: string) {
+    this.chat('Server', body);
+  }
+
+  private snapshotPlayer(player: LocalPlayer): PlayerStateSnapshot {
+    return {
+      id: player.id,
+      name: player.name,
+      bot: player.bot,
+      role: player.id === this.viewerId ? player.role ?? 'unknown' : 'unknown',
+      position: { x: 0, y: 1.6, z: 0 },
+      rotation: { x: 0, y: 0, z: 0, w: 1 },
+      connected: true,
+      brokenTools: [...player.brokenTools],
+      suspicion: this.metrics.suspicionByPlayer[player.id] ?? 0,
+      score: player.score,
+    };
+  }
+
+  private serializePlayers() {
+    return [...this.players.values()].map((player) => this.snapshotPlayer(player));
+  }
+
+  // Copies, since the store tells updates apart by reference
+  private publicMetrics(): VisualizationMetrics {
+    return {
+      ...this.metrics,
+      suspicionByPlayer: { ...this.metrics.suspicionByPlayer },
+      goldByPlayer: { ...this.metrics.goldByPlayer },
+      efficiencyByPlayer: { ...this.metrics.efficiencyByPlayer },
+    };
+  }
+
+  // Plays a move the viewer sent; only they hear why the rules refused it
+  private playMove(playerId: string, move: BotMove) {
+    const result = this.applyMove(playerId, move);
+    if (result.error !== undefined) this.notify(result.error);
+    else this.announceMove(playerId, move, result);
+  }
+
+  // Announces a move as the server would; only the viewer sees their hand and maps
+  private announceMove(playerId: string, move: BotMove, result: Extract<MoveResult, { success: true }>) {
+    const player = this.players.get(playerId)!;
+    if (move.type === 'tool') deliverLocal('players', this.serializePlayers());
+    if (move.type === 'map') {
+      if (playerId === this.viewerId) deliverLocal('goalPeeked', { tileId: result.tileId!, cardKey: result.cardKey! });
+    } else {
+      deliverLocal('boardUpdated', this.publicBoard());
+    }
+    if (playerId === this.viewerId) deliverLocal('handUpdated', [...player.hand]);
+    deliverLocal('metrics', this.publicMetrics());
+    if (move.type === 'map') {
+      const tile = this.board.tiles.find((t) => t.id === result.tileId);
+      this.notify(`${player.name} consulted a map of the goal at (${tile?.row}, ${tile?.col}).`);
+    }
+    if (move.type === 'discard') this.notify(`${player.name} discarded a card and passed.`);
+    if (result.roundEnded) this.announceRoundEnd();
+    this.handOver();
+  }
+
+  // Computer players move after a short pause
+  protected onTurnStarted() {
+    window.clearTimeout(this.botTimer);
+    const botId = this.metrics.activePlayerId;
+    if (!botId || !this.players.get(botId)?.bot) return;
+    this.botTimer = window.setTimeout(() => this.playBotTurn(botId), BOT_TURN_DELAY_MS);
+  }
+
+  protected onTurnsOver() {
+    window.clearTimeout(this.botTimer);
+    this.botTimer = undefined;
+  }
+
+  // Computer miners take the richest card left after the same pause
+  protected onNuggetPick() {
+    window.clearTimeout(this.nuggetTimer);
+    const pickerId = this.nuggetPickerId();
+    if (!pickerId || !this.players.get(pickerId)?.bot) return;
+    this.nuggetTimer = window.setTimeout(() => {
+      this.pickRichestNugget();
+      this.announceNuggetDraft();
+    }, BOT_TURN_DELAY_MS);
+  }
+
+  protected onDraftOver() {
+    window.clearTimeout(this.nuggetTimer);
+    this.nuggetTimer = undefined;
+  }
+
+  private playBotTurn(botId: string) {
+    const bot = this.players.get(botId)!;
+    const turn = this.playBotMove(botId, bot.bot ?? 'normal');
+    if (turn?.result.success) this.announceMove(botId, turn.move, turn.result);
+  }
+
+  private announceNuggetDraft() {
+    if (this.phase !== 'nuggets' || !this.nuggetDraft) {
+      this.announceRoundEnd();
+      return;
+    }
+    deliverLocal('metrics', this.publicMetrics());
+    deliverLocal('nuggetDraft', this.nuggetDraftState());
+    this.handOver();
+  }
+
+  private announceRoundEnd() {
+    // Miners divide the gold before the round is scored
+    if (this.phase === 'nuggets') {
+      this.announceNuggetDraft();
+      return;
+    }
+    deliverLocal('players', this.serializePlayers());
+    deliverLocal('roundEnded', {
+      team: this.lastWinningTeam,
+      awards: this.lastAwards,
+      placerId: this.lastWinnerId,
+      round: this.roundNumber,
+      winners: this.lastWinners,
+      roles: this.revealRoles(),
+    });
+    deliverLocal('metrics', this.publicMetrics());
+    if (this.phase === 'gameOver') deliverLocal('gameEnded', this.finalStandings());
+  }
+
+  private restart() {
+    const result = this.nextRound();
+    if (result.error !== undefined) {
+      this.notify(result.error);
+      return;
+    }
+    const viewer = this.viewerId ? this.players.get(this.viewerId) : undefined;
+    deliverLocal('players', this.serializePlayers());
+    deliverLocal('boardUpdated', this.publicBoard());
+    deliverLocal('metrics', this.publicMetrics());
+    if (viewer?.role) {
+      deliverLocal('roleAssigned', viewer.role);
+      deliverLocal('handUpdated', [...viewer.hand]);
+    }
+    this.handOver();
+  }
+}
@@ -0,0 +1,182 @@
+import { CARD_LIBRARY, DECK_TEMPLATE } from './cards';
+import { tileToPosition } from './board';
+import type { BoardState, MatchActionRecord, MatchRecord, MatchRound, PlayerStateSnapshot, VisualizationMetrics } from '../net/types';
+import { BOARD_ROWS, GOAL_CARDS, GOAL_ROWS, collapseTile, findTile, placePathCard } from '../../../shared/rules/board';
+import { handSize } from '../../../shared/rules/roles';
+import { ROUNDS_PER_GAME, revealReachedGoals } from '../../../shared/rules/scoring';
+
+/** One step of a replay: everything the scene and panels need to show the game at that moment. */
+export interface ReplayFrame {
+  round: number;
+  board: BoardState;
+  players: Record<string, PlayerStateSnapshot>;
+  metrics: VisualizationMetrics;
+  /** Every goal of the round, shown to the viewer since the game is over. */
+  goals: Record<string, string>;
+  caption: string;
+  actorId?: string;
+}
+
+const DECK_SIZE = DECK_TEMPLATE.reduce((total, entry) => total + entry.quantity, 0);
+const GOAL_LABELS = ['top', 'middle', 'bottom'];
+// Actions that take a turn, and so draw a replacement card while the deck lasts
+const TURN_ACTIONS = new Set(['place', 'rockfall', 'tool', 'map', 'discard']);
+
+const goalName = (board: BoardState, tileId: string) => {
+  const tile = findTile(board, tileId);
+  return GOAL_LABELS[GOAL_ROWS.indexOf(tile?.row ?? -1)] ?? tileId;
+};
+
+const cardLabel = (cardKey: string) => CARD_LIBRARY[cardKey]?.label ?? cardKey;
+
+const copyPlayers = (players: Record<string, PlayerStateSnapshot>) =>
+  Object.fromEntries(
+    Object.entries(players).map(([id, player]) => [
+      id,
+      { ...player, position: { ...player.position }, brokenTools: [...player.brokenTools] },
+    ]),
+  );
+
+const standAt = (tileId: string, board: BoardState) => {
+  const tile = findTile(board, tileId);
+  if (!tile) return undefined;
+  const { x, z } = tileToPosition(tile.row, tile.col);
+  return { x, y: 1.6, z };
+};
+
+/**
+ * Rebuilds a finished game frame by frame from its stored deal and action log,
+ * using the same board rules as the server.
+ */
+export const buildReplayFrames = (match: MatchRecord): ReplayFrame[] => {
+  const frames: ReplayFrame[] = [];
+  const names = Object.fromEntries(match.players.map((player) => [player.id, player.name]));
+  const nameOf = (id?: string) => (id && names[id]) || 'Someone';
+  const gold: Record<string, number> = {};
+
+  const playRound = (round: MatchRound, actions: MatchActionRecord[]) => {
+    const seated = match.players.filter((player) => round.roles[player.id]);
+    const goals = Object.fromEntries(
+      round.board.tiles.filter((tile) => tile.tileType === 'goal' && tile.cardKey).map((tile) => [tile.id, tile.cardKey!]),
+    );
+    const start = tileToPosition(BOARD_ROWS / 2, 0);
+    const players: Record<string, PlayerStateSnapshot> = Object.fromEntries(
+      seated.map((player, seat) => [
+        player.id,
+        {
+          id: player.id,
+          name: player.name,
+          role: round.roles[player.id],
+          position: { x: start.x - 1, y: 1.6, z: start.z + (seat - seated.length / 2) * 0.8 },
+          rotation: { x: 0, y: 0, z: 0, w: 1 },
+          connected: true,
+          brokenTools: [],
+          suspicion: 0,
+          score: gold[player.id] ?? 0,
+        },
+      ]),
+    );
+    let board = round.board;
+    const metrics: VisualizationMetrics = {
+      deckRemaining: Math.max(0, DECK_SIZE - handSize(seated.length) * seated.length),
+      progress: revealReachedGoals(board).progress,
+      collapsedTiles: 0,
+      suspicionByPlayer: {},
+      turnsTaken: 0,
+      goldByPlayer: { ...gold },
+      round: round.round,
+      phase: 'playing',
+      efficiencyByPlayer: {},
+    };
+    const push = (caption: string, actorId?: string) =>
+      frames.push({
+        round: round.round,
+        board,
+        players: copyPlayers(players),
+        metrics: { ...metrics, goldByPlayer: { ...metrics.goldByPlayer }, activePlayerId: actorId },
+        goals,
+        caption,
+        actorId,
+      });
+
+    const saboteurs = seated.filter((player) => round.roles[player.id] === 'saboteur').length;
+    push(`Round ${round.round}: ${saboteurs} saboteur${saboteurs === 1 ? '' : 's'} among ${seated.length} dwarves.`);
+
+    // The round is decided by its last move; chat after that still belongs to the round
+    const lastMove = actions.map((action) => action.type !== 'chat').lastIndexOf(true);
+    const settle = () => {
+      Object.entries(round.awards).forEach(([id, value]) => {
+        gold[id] = (gold[id] ?? 0) + value;
+        if (players[id]) players[id].score = gold[id];
+      });
+      metrics.goldByPlayer = { ...gold };
+      metrics.phase = round.round >= ROUNDS_PER_GAME ? 'gameOver' : 'roundOver';
+      push(`Round ${round.round}: ${round.winningTeam === 'miner' ? 'Miners' : 'Saboteurs'} win.`);
+    };
+
+    actions.forEach((action, index) => {
+      const actor = players[action.playerId];
+      const name = nameOf(action.playerId);
+      if (TURN_ACTIONS.has(action.type) && !(action.type === 'discard' && action.payload.timedOut)) {
+        metrics.turnsTaken += 1;
+        metrics.deckRemaining = Math.max(0, metrics.deckRemaining - 1);
+      }
+      switch (action.type) {
+        case 'place': {
+          const { tileId, cardKey, rotation, connectors } = action.payload;
+          const before = board.tiles.filter((tile) => tile.revealed).length;
+          board = placePathCard(board, { targetTileId: tileId, cardKey, rotation, connectors, ownerId: action.playerId });
+          const revealed = revealReachedGoals(board);
+          const gained = revealed.progress - metrics.progress;
+          board = revealed.board;
+          metrics.progress = revealed.progress;
+          metrics.efficiencyByPlayer[action.playerId] = (metrics.efficiencyByPlayer[action.playerId] ?? 0) + gained;
+          const flipped = board.tiles.filter((tile) => tile.revealed).length - before > 1;
+          if (actor) actor.position = standAt(tileId, board) ?? actor.position;
+          push(`${name} placed ${cardLabel(cardKey)} at ${tileId}${flipped ? ' and turned over a goal' : ''}.`, action.playerId);
+          break;
+        }
+        case 'rockfall': {
+          const revealed = revealReachedGoals(collapseTile(board, action.payload.tileId));
+          board = revealed.board;
+          metrics.progress = revealed.progress;
+          metrics.collapsedTiles += 1;
+          if (actor) actor.position = standAt(action.payload.tileId, board) ?? actor.position;
+          push(`${name} collapsed the tunnel at ${action.payload.tileId}.`, action.playerId);
+          break;
+        }
+        case 'tool': {
+          const target = players[action.payload.targetPlayerId];
+          if (target) target.brokenTools = [...action.payload.brokenTools];
+          push(`${name} played ${cardLabel(action.payload.cardKey)} on ${nameOf(action.payload.targetPlayerId)}.`, action.playerId);
+          break;
+        }
+        case 'map': {
+          const cardKey = goals[action.payload.tileId];
+          const seen = cardKey ? ` and saw ${GOAL_CARDS[cardKey]?.label ?? cardKey}` : '';
+          push(`${name} peeked at the ${goalName(board, action.payload.tileId)} goal${seen}.`, action.playerId);
+          break;
+        }
+        case 'discard':
+          push(
+            action.payload.timedOut ? `${name} ran out of time and forfeited a card.` : `${name} discarded a card and passed.`,
+            action.playerId,
+          );
+          break;
+        case 'nugget':
+          push(`${name} took a ${action.payload.value}-gold nugget.`, action.playerId);
+          break;
+        case 'chat':
+          push(`${name}: ${action.payload.body}`);
+          break;
+      }
+      if (index === lastMove && round.winningTeam) settle();
+    });
+    if (lastMove < 0 && round.winningTeam) settle();
+  };
+
+  match.rounds.forEach((round) => {
+    playRound(round, match.actions.filter((action) => action.round === round.round));
+  });
+  return frames;
+};
@@ -33,16 +33,30 @@ import {
 import { PointerLockControls } from 'three/examples/jsm/controls/PointerLockControls.js';
 import type { BoardState, BoardTile, PlayerStateSnapshot } from '../net/types';
 import type { CardInstance, PathConnectors } from './cards';
-import { CARD_LIBRARY, rotateConnectors } from './cards';
+import { CARD_LIBRARY, TOOL_ICONS, rotateConnectors } from './cards';
+import { PLACEMENT_ISSUES, checkPlacement, exploreBoard } from '../../../shared/rules/board';
+import type { PlacementCheck } from '../../../shared/rules/board';
+import { canDig } from '../../../shared/rules/tools';
 import { emitMovement } from '../net/client';
 import { useGameStore } from '../state/store';
-import { createBoardMesh, updateBoardMesh, boardTileFromIntersection, tileToPosition, TILE_WIDTH, TILE_HEIGHT, BOARD_COLUMNS, BOARD_ROWS } from './board';
+import {
+  createBoardMesh,
+  updateBoardMesh,
+  boardTileFromIntersection,
+  setTileHint,
+  tileToPosition,
+  TILE_WIDTH,
+  TILE_HEIGHT,
+  BOARD_COLUMNS,
+  BOARD_ROWS,
+} from './board';
 import { loadAvatarModel } from './models';
 
 const broadcastIntervalMs = 120;
 const AVATAR_GROUND_LIFT = 0.05;
 
 type TileClickHandler = (tile: BoardTile) => void;
+type PlacementHoverHandler = (hover: { tile: BoardTile; error?: string } | undefined, event: PointerEvent) => void;
 
 const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
 
@@ -316,6 +330,14 @@ export class GameScene {
 
   private readonly tileHandlers = new Set<TileClickHandler>();
 
+  private readonly placementHoverHandlers = new Set<PlacementHoverHandler>();
+
+  private board?: BoardState;
+
+  private peekedGoals: Record<string, string> = {};
+
+  private readonly placementChecks = new Map<string, PlacementCheck>();
+
   private readonly movement = { forward: 0, right: 0 };
 
   private readonly clock = new Clock();
@@ -330,7 +352,7 @@ export class GameScene {
   private thirdPerson = true;
   private selfId?: string;
 
-  private previewMesh: Mesh;
+  private previewMesh: Mesh<PlaneGeometry, MeshStandardMaterial>;
 
   private previewSelected?: CardInstance;
 
@@ -351,6 +373,9 @@ export class GameScene {
   private input: InputManager;
   private thirdController?: ThirdPersonController;
   private nameLabels = new Map<string, Mesh>();
+  private players: Record<string, PlayerStateSnapshot> = {};
+  // The local dwarf's broken tools as of the last hints, which stop every placement
+  private selfBrokenTools = '';
   private activePlayerId?: string;
   private resolveSelfId() {
     if (this.selfId) return this.selfId;
@@ -445,20 +470,41 @@ export class GameScene {
     this.tileHandlers.add(handler);
   }
 
+  public onPlacementHover(handler: PlacementHoverHandler) {
+    this.placementHoverHandlers.add(handler);
+  }
+
+  public setPeekedGoals(peekedGoals: Record<string, string>) {
+    this.peekedGoals = peekedGoals;
+    if (this.board && this.boardGroup) {
+      updateBoardMesh(this.board, this.boardMeshMap, peekedGoals);
+      this.refreshPlacementHints();
+    }
+  }
+
   public setBoard(board: BoardState | undefined) {
     if (!board) return;
+    this.board = board;
     if (!this.boardGroup) {
-      const { group, meshMap } = createBoardMesh(board);
+      const { group, meshMap } = createBoardMesh(board, this.peekedGoals);
       this.boardGroup = group;
       this.boardMeshMap = meshMap;
       this.scene.add(group);
     } else {
-      updateBoardMesh(board, this.boardMeshMap);
+      updateBoardMesh(board, this.boardMeshMap, this.peekedGoals);
     }
+    this.refreshPlacementHints();
   }
 
   public async setPlayers(players: Record<string, PlayerStateSnapshot>) {
+    // Kept for the name tags, so a replay can drive the scene without touching the live store
+    this.players = players;
     this.selfId = useGameStore.getState().playerId || this.selfId || Object.keys(players)[0];
+    const brokenTools = players[this.selfId ?? '']?.brokenTools.join() ?? '';
+    if (brokenTools !== this.selfBrokenTools) {
+      this.selfBrokenTools = brokenTools;
+      this.refreshPlacementHints();
+    }
     if (!this.baseAvatar) {
       const loaded = await loadAvatarModel();
       this.baseAvatar = loaded.model;
@@ -585,13 +631,14 @@ export class GameScene {
       }
     }
     this.updatePreview();
+    this.notifyPlacementHover(event);
   };
 
   private handlePointerDown = () => {
     if (!this.hoveredMesh) return;
     const tile = boardTileFromIntersection(this.hoveredMesh);
     if (!tile) return;
-    if (tile.tileType === 'start' || tile.tileType === 'goal' || tile.tileType === 'path') return;
+    if (tile.tileType === 'start') return;
     this.tileHandlers.forEach((handler) => handler(tile));
   };
 
@@ -651,9 +698,45 @@ export class GameScene {
     const norm = ((rotation % 4) + 4) % 4;
     this.previewRotationSteps = norm === 2 ? 2 : 0;
     this.updatePreviewTexture();
+    this.refreshPlacementHints();
     this.updatePreview();
   }
 
+  /**
+   * Re-runs the shared placement check for the selected path card against every
+   * open tile, so the board shows where the server will accept it.
+   */
+  private refreshPlacementHints() {
+    this.placementChecks.clear();
+    const def = this.previewSelected ? CARD_LIBRARY[this.previewSelected.cardKey] : undefined;
+    const reachable = this.board && def?.category === 'path' ? exploreBoard(this.board).visited : undefined;
+    // Nowhere is open to a dwarf who can't dig
+    const toolsCheck: PlacementCheck | undefined = canDig(this.players[this.selfId ?? '']?.brokenTools ?? [])
+      ? undefined
+      : { error: PLACEMENT_ISSUES['broken-tools'], reason: 'broken-tools' };
+    this.boardMeshMap.forEach((group, id) => {
+      const tile = this.board?.tiles.find((t) => t.id === id);
+      if (!this.board || !tile || def?.category !== 'path' || (tile.tileType !== 'empty' && tile.tileType !== 'blocked')) {
+        setTileHint(group);
+        return;
+      }
+      const check = toolsCheck ?? checkPlacement(this.board, def.key, tile.id, this.previewRotationSteps, reachable);
+      this.placementChecks.set(tile.id, check);
+      setTileHint(group, check.error ? 'illegal' : 'legal');
+    });
+    // The hovered overlay may have just been replaced
+    if (this.hoveredMesh && !this.hoveredMesh.parent) {
+      this.hoveredMesh = undefined;
+    }
+  }
+
+  private notifyPlacementHover(event: PointerEvent) {
+    const tile = this.hoveredMesh ? boardTileFromIntersection(this.hoveredMesh) : undefined;
+    const check = tile ? this.placementChecks.get(tile.id) : undefined;
+    const hover = tile && check ? { tile, error: check.error } : undefined;
+    this.placementHoverHandlers.forEach((handler) => handler(hover, event));
+  }
+
   private updatePreview() {
     if (!this.hoveredMesh || !this.previewSelected) {
       this.previewMesh.visible = false;
@@ -665,6 +748,8 @@ export class GameScene {
       return;
     }
     const pos = tileToPosition(tile.row, tile.col);
+    const illegal = !!this.placementChecks.get(tile.id)?.error;
+    this.previewMesh.material.color.set(illegal ? '#ef476f' : '#2a9df4');
     this.previewMesh.position.set(pos.x, 0.05, pos.z);
     this.previewMesh.rotation.x = -Math.PI / 2;
     this.previewMesh.rotation.y = 0; // orientation is encoded in the rotated texture
@@ -673,23 +758,22 @@ export class GameScene {
 
   private updatePreviewTexture() {
     if (!this.previewSelected) {
-      this.previewMesh.material.map = null as any;
+      this.previewMesh.material.map = null;
       this.previewMesh.material.needsUpdate = true;
       return;
     }
     const def = CARD_LIBRARY[this.previewSelected.cardKey];
     const connectors = def?.connectors;
     if (!connectors) {
-      this.previewMesh.material.map = null as any;
+      this.previewMesh.material.map = null;
       this.previewMesh.material.needsUpdate = true;
       return;
     }
     const rotated = rotateConnectors(connectors, this.previewRotationSteps);
     const tex = rotated ? this.buildConnectorTexture(rotated) : undefined;
     if (tex) {
-      const mat = this.previewMesh.material as MeshStandardMaterial;
-      mat.map = tex;
-      mat.needsUpdate = true;
+      this.previewMesh.material.map = tex;
+      this.previewMesh.material.needsUpdate = true;
     }
   }
 
@@ -843,15 +927,17 @@ export class GameScene {
   private updateLabelTexture(id: string, nameOverride?: string) {
     const label = this.nameLabels.get(id);
     if (!label) return;
-    const player = useGameStore.getState().players[id];
-    const name = nameOverride ?? player?.name ?? id;
+    const player = this.players[id];
+    const tools = (player?.brokenTools ?? []).map((tool) => TOOL_ICONS[tool]).join('');
+    const name = `${nameOverride ?? player?.name ?? id}${tools ? ` ${tools}` : ''}`;
     const isActive = this.activePlayerId === id;
     const canvas = document.createElement('canvas');
     canvas.width = 256;
     canvas.height = 64;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
-    ctx.fillStyle = isActive ? 'rgba(255,215,0,0.9)' : 'rgba(0,0,0,0.65)';
+    // The frame shows the dwarf's profile colour unless it is their turn
+    ctx.fillStyle = isActive ? 'rgba(255,215,0,0.9)' : player?.color ?? 'rgba(0,0,0,0.65)';
     ctx.fillRect(0, 0, canvas.width, canvas.height);
     ctx.fillStyle = '#111';
     ctx.fillRect(4, 4, canvas.width - 8, canvas.height - 8);
@@ -6,22 +6,61 @@ import {
   emitCardPlacement,
   emitRockfall,
   emitToolEffect,
+  emitDiscard,
+  emitMapPeek,
   emitChat,
   emitRestart,
+  emitStartGame,
+  emitChooseNugget,
+  emitKickPlayer,
+  emitBanPlayer,
+  emitLockLobby,
+  emitAddBot,
+  emitRemoveBot,
+  loadResumeRecord,
+  watchLobbies,
+  unwatchLobbies,
+  clearResumeRecord,
+  connectLocal,
+  disconnectLocal,
 } from './net/client';
-import type { BoardTile } from './net/types';
+import { clearSession, loadSession, login, register } from './net/auth';
+import { fetchProfile, updateProfile } from './net/profile';
+import { fetchMatch, fetchMatches } from './net/matches';
+import type {
+  BoardTile,
+  BotDifficulty,
+  GameEndedPayload,
+  JoinRejectedPayload,
+  KickedPayload,
+  LobbySummary,
+  MatchSummary,
+  NuggetDraftPayload,
+  RoundEndedPayload,
+} from './net/types';
 import type { Role } from './game/cards';
 import { useGameStore } from './state/store';
 import { createHandPanel } from './ui/handPanel';
 import { createHUD } from './ui/hud';
 import { createVisualizationPanel } from './ui/visualization';
+import { createNuggetPicker } from './ui/nuggetPicker';
+import { createProfilePanel } from './ui/profilePanel';
+import { createReplayViewer } from './ui/replayViewer';
+import { createPassScreen } from './ui/passScreen';
+import { escapeHtml } from './ui/html';
+import { buildReplayFrames } from './game/replay';
+import { LocalGame } from './game/localGame';
+import type { LocalSeat } from './game/localGame';
 import { CARD_LIBRARY } from './game/cards';
+import { ROUNDS_PER_GAME } from '../../shared/rules/scoring';
+import { MAX_PLAYERS, MIN_PLAYERS } from '../../shared/rules/roles';
+import { BOT_DIFFICULTIES, BOT_NAMES } from '../../shared/rules/bots';
+import { MAX_SEED, isSeed } from '../../shared/rules/random';
 import { createProximityChat } from './audio/proximityChat';
 import type { ProximityChat } from './audio/proximityChat';
 import type { PlayerStateSnapshot } from './net/types';
 
 type Profile = { name: string; avatar?: string; email?: string };
-type Account = Profile & { password?: string };
 
 const mount = document.querySelector<HTMLDivElement>('#app');
 if (!mount) {
@@ -35,6 +74,7 @@ const scene = initGameScene();
 scene.mount(mount);
 
 const hud = createHUD();
+hud.setConnection(useGameStore.getState().connection);
 hud.element.style.display = 'none';
 uiElements.push(hud.element);
 document.body.appendChild(hud.element);
@@ -59,7 +99,7 @@ const renderLeaderboard = (players: Record<string, PlayerStateSnapshot>, metrics
       ${entries
         .map(
           (p, idx) =>
-            `<li><span class="rank">${idx + 1}</span> ${p.name} <span class="score">${(metrics?.goldByPlayer?.[p.id] ?? p.score ?? 0).toFixed(
+            `<li><span class="rank">${idx + 1}</span> ${escapeHtml(p.name)} <span class="score">${(metrics?.goldByPlayer?.[p.id] ?? p.score ?? 0).toFixed(
               0,
             )} gold</span></li>`,
         )
@@ -79,6 +119,10 @@ const handPanel = createHandPanel({
       scene.setPreviewSelection(selection.card, rotation);
     }
   },
+  onDiscard: (card) => {
+    emitDiscard({ cardInstanceId: card.instanceId });
+    handPanel.clearSelection();
+  },
 });
 handPanel.element.style.display = 'none';
 uiElements.push(handPanel.element);
@@ -139,9 +183,13 @@ const resetToIntro = () => {
   victoryBanner.style.display = 'none';
   introOverlay.classList.remove('hidden');
   introOverlay.style.display = 'grid';
+  openLobbyBrowser();
+  void renderRecentGames();
+  renderBotControls();
 };
 
 modal.querySelector<HTMLButtonElement>('#confirm-exit')?.addEventListener('click', () => {
+  if (localGame) leaveLocalGame();
   resetToIntro();
 });
 
@@ -174,6 +222,11 @@ registerPeerHooks({
     pendingAudioPeers.delete(playerId);
   },
   onChat: (message) => {
+    // Server notices (e.g. a refused start) would be hidden behind the lobby overlay
+    if (!gameViewShown && message.from === 'Server') {
+      const status = introOverlay.querySelector<HTMLElement>('#status-hint');
+      if (status) status.textContent = message.body;
+    }
     hud.appendChat(message);
     hud.pushLog(`${message.from}: ${message.body}`);
   },
@@ -191,16 +244,42 @@ useGameStore.subscribe((state, previous) => {
   if (state.role !== previous?.role) {
     hud.setRole(state.role);
   }
+  if (state.connection !== previous?.connection) {
+    hud.setConnection(state.connection);
+    handPanel.setEnabled(state.connection.state === 'connected');
+    if (!lobbiesLoaded) renderLobbyList();
+  }
+  if (state.peekedGoals !== previous?.peekedGoals) {
+    scene.setPeekedGoals(state.peekedGoals);
+  }
   if (state.board !== previous?.board) {
     scene.setBoard(state.board);
   }
   if (state.players !== previous?.players) {
     void scene.setPlayers(state.players);
-    hud.updatePlayers(state.players, state.playerId);
-  vizPanel.update(state.metrics, state.players);
+    hud.updatePlayers(state.players, state.playerId, state.hostId);
+    vizPanel.update(state.metrics, state.players);
     renderLeaderboard(state.players, state.metrics);
     scene.updateWallBoards(state.metrics, state.players);
   }
+  if (state.locked !== previous?.locked) {
+    hud.setLocked(state.locked);
+    if (previous) hud.pushLog(state.locked ? 'The host locked the lobby.' : 'The host unlocked the lobby.');
+  }
+  if (state.hostId !== previous?.hostId) {
+    hud.updatePlayers(state.players, state.playerId, state.hostId);
+    syncHostControls();
+    if (previous?.hostId && state.hostId) {
+      hud.pushLog(`${state.players[state.hostId]?.name ?? 'Someone'} is now the host.`);
+    }
+  }
+  if (state.metrics !== previous?.metrics || state.players !== previous?.players || state.hostId !== previous?.hostId) {
+    if (state.metrics?.phase === 'lobby') {
+      renderLobbyStatus(Object.keys(state.players).length);
+    } else if (state.metrics) {
+      enterGameView();
+    }
+  }
   if (state.metrics !== previous?.metrics) {
     hud.setMetrics(state.metrics);
     vizPanel.update(state.metrics, state.players);
@@ -238,6 +317,7 @@ const handleTileClick = (tile: BoardTile) => {
   if (!card) return;
   const cardDefinition = CARD_LIBRARY[card.cardKey];
   if (cardDefinition.category === 'path') {
+    if (tile.tileType !== 'empty' && tile.tileType !== 'blocked') return;
     emitCardPlacement({
       cardInstanceId: card.instanceId,
       cardKey: card.cardKey,
@@ -249,11 +329,33 @@ const handleTileClick = (tile: BoardTile) => {
     emitRockfall({ targetTileId: tile.id });
     hud.pushLog(`Called rockfall at (${tile.row}, ${tile.col})`);
     handPanel.clearSelection();
+  } else if (cardDefinition.category === 'map') {
+    if (tile.tileType !== 'goal') return;
+    emitMapPeek({ cardInstanceId: card.instanceId, targetTileId: tile.id });
+    hud.pushLog(`Studied the map for the goal at (${tile.row}, ${tile.col})`);
+    handPanel.clearSelection();
   }
 };
 
 scene.onTileClick(handleTileClick);
 
+const placementTooltip = document.createElement('div');
+placementTooltip.className = 'placement-tooltip';
+placementTooltip.style.display = 'none';
+document.body.appendChild(placementTooltip);
+
+scene.onPlacementHover((hover, event) => {
+  if (!hover) {
+    placementTooltip.style.display = 'none';
+    return;
+  }
+  placementTooltip.textContent = hover.error ?? 'Legal placement';
+  placementTooltip.dataset.legal = hover.error ? 'false' : 'true';
+  placementTooltip.style.left = `${event.clientX + 14}px`;
+  placementTooltip.style.top = `${event.clientY + 14}px`;
+  placementTooltip.style.display = '';
+});
+
 hud.onTargetChange((targetId) => {
   const selection = handPanel.getSelection();
   const card = selection.card;
@@ -262,13 +364,27 @@ hud.onTargetChange((targetId) => {
   if (def.category === 'break' || def.category === 'repair') {
     const accepted = confirm(`Use ${def.label} on this player?`);
     if (accepted) {
-      emitToolEffect({ targetPlayerId: targetId, cardKey: def.key as 'break' | 'repair' });
+      const target = useGameStore.getState().players[targetId];
+      // A two-tool repair mends whichever listed tool is broken; ask only when both are
+      const repairable = (def.tools ?? []).filter((tool) => target?.brokenTools.includes(tool));
+      let tool = repairable[0];
+      if (def.category === 'repair' && repairable.length > 1) {
+        tool = confirm(`Repair the ${repairable[0]}? (Cancel repairs the ${repairable[1]})`) ? repairable[0] : repairable[1];
+      }
+      emitToolEffect({ targetPlayerId: targetId, cardKey: def.key, tool: def.category === 'repair' ? tool : undefined });
       hud.pushLog(`${def.label} applied to ${targetId}`);
       handPanel.clearSelection();
     }
   }
 });
 
+hud.onModerate((action, playerId) => {
+  const name = useGameStore.getState().players[playerId]?.name ?? 'this player';
+  if (action === 'kick' && confirm(`Kick ${name} from the lobby?`)) emitKickPlayer(playerId);
+  if (action === 'ban' && confirm(`Ban ${name}? They won't be able to rejoin this lobby.`)) emitBanPlayer(playerId);
+  if (action === 'lock' || action === 'unlock') emitLockLobby(action === 'lock');
+});
+
 const scheduleVolumeUpdates = () => {
   proximityChat?.updateVolumes(useGameStore.getState().players);
   requestAnimationFrame(scheduleVolumeUpdates);
@@ -290,21 +406,6 @@ const tickTimer = () => {
 };
 tickTimer();
 
-// Periodically refresh lobby list while intro is visible
-let lobbyPollHandle: number | undefined;
-const ensureLobbyPolling = (overlay: HTMLElement) => {
-  if (lobbyPollHandle) return;
-  const poll = () => {
-    if (overlay.classList.contains('hidden')) {
-      lobbyPollHandle = undefined;
-      return;
-    }
-    renderLobbyList();
-    lobbyPollHandle = window.setTimeout(poll, 3000);
-  };
-  poll();
-};
-
 const roundModal = document.createElement('div');
 roundModal.className = 'confirm-modal hidden';
 roundModal.innerHTML = `
@@ -312,6 +413,7 @@ roundModal.innerHTML = `
     <h3 id="round-title">Round Ended</h3>
     <p id="round-body"></p>
     <div id="round-awards"></div>
+    <div id="round-roles" class="round-roles"></div>
     <div class="button-row">
       <button class="btn primary" id="round-close">Close</button>
     </div>
@@ -324,24 +426,69 @@ roundModal.querySelector<HTMLButtonElement>('#round-close')?.addEventListener('c
   roundModal.style.display = 'none';
 });
 
+const showRoundModal = () => {
+  roundModal.classList.remove('hidden');
+  roundModal.style.display = 'grid';
+};
+
+const nuggetPicker = createNuggetPicker({ onChoose: (index) => emitChooseNugget(index) });
+document.body.appendChild(nuggetPicker.element);
+
+window.addEventListener('nugget-draft', (e: any) => {
+  const detail = e.detail as NuggetDraftPayload;
+  const state = useGameStore.getState();
+  nuggetPicker.show(detail, state.players, state.playerId);
+});
+
 window.addEventListener('round-ended', (e: any) => {
-  const detail = e.detail as { team?: Role; awards: Record<string, number>; placerId?: string; round: number; winners: string[] };
+  const detail = e.detail as RoundEndedPayload;
+  nuggetPicker.hide();
   const title = roundModal.querySelector<HTMLElement>('#round-title');
   const body = roundModal.querySelector<HTMLElement>('#round-body');
   const awardsList = roundModal.querySelector<HTMLElement>('#round-awards');
+  const rolesList = roundModal.querySelector<HTMLElement>('#round-roles');
+  const players = useGameStore.getState().players;
   if (title) title.textContent = detail.team === 'miner' ? 'Miners found the gold!' : 'Saboteurs win the round';
-  if (body) body.textContent = `Round ${detail.round} complete.`;
+  if (body) body.textContent = `Round ${detail.round} of ${ROUNDS_PER_GAME} complete.`;
   if (awardsList) {
-    const players = useGameStore.getState().players;
     awardsList.innerHTML = Object.entries(detail.awards)
-      .map(([pid, amt]) => `<p>${players[pid]?.name ?? pid}: +${amt} gold</p>`)
+      .map(([pid, amt]) => `<p>${escapeHtml(players[pid]?.name ?? pid)}: +${amt} gold</p>`)
       .join('') || '<p>No rewards.</p>';
   }
-  roundModal.classList.remove('hidden');
-  roundModal.style.display = 'grid';
+  if (rolesList) {
+    rolesList.innerHTML = Object.entries(detail.roles)
+      .map(
+        ([pid, role]) =>
+          `<span class="role-chip" data-role="${role}">${escapeHtml(players[pid]?.name ?? pid)}: ${role === 'miner' ? '⛏️ Miner' : '💣 Saboteur'}</span>`,
+      )
+      .join('');
+  }
+  nextRoundBtn.textContent = 'Start Next Round';
+  showRoundModal();
 });
 
-// Host/anyone can start next round after modal
+// After the final round the same modal turns into the standings screen
+window.addEventListener('game-ended', (e: any) => {
+  const detail = e.detail as GameEndedPayload;
+  const title = roundModal.querySelector<HTMLElement>('#round-title');
+  const body = roundModal.querySelector<HTMLElement>('#round-body');
+  const awardsList = roundModal.querySelector<HTMLElement>('#round-awards');
+  const names = detail.winners.map((id) => detail.standings.find((entry) => entry.id === id)?.name ?? id);
+  if (title) title.textContent = names.length > 1 ? `Tie: ${names.join(' & ')}` : `${names[0] ?? 'Nobody'} wins the game!`;
+  if (body) body.textContent = `Final standings after ${detail.rounds} rounds:`;
+  if (awardsList) {
+    awardsList.innerHTML = `<ol class="final-standings">${detail.standings
+      .map(
+        (entry) =>
+          `<li class="${detail.winners.includes(entry.id) ? 'winner' : ''}">${escapeHtml(entry.name)} — ${entry.gold} gold</li>`,
+      )
+      .join('')}</ol>`;
+  }
+  nextRoundBtn.textContent = 'Play Again';
+  showRoundModal();
+});
+
+// Only the host deals the next round; everyone else just closes the modal
 const nextRoundBtn = document.createElement('button');
 nextRoundBtn.className = 'btn primary';
 nextRoundBtn.textContent = 'Start Next Round';
@@ -373,6 +520,18 @@ introOverlay.innerHTML = `
           ${[4,5,6,7,8,9,10].map((n) => `<option value="${n}">${n} players</option>`).join('')}
         </select>
       </label>
+      <label class="field field-check">
+        <input type="checkbox" id="lobby-private" />
+        <span>Private lobby (invite link only)</span>
+      </label>
+      <label class="field">
+        <span>Lobby passcode (optional)</span>
+        <input type="password" id="lobby-passcode" placeholder="Leave blank for none" />
+      </label>
+      <label class="field">
+        <span>Random seed (optional)</span>
+        <input type="number" id="lobby-seed" min="0" max="${MAX_SEED}" step="1" placeholder="Leave blank for a fresh shuffle" />
+      </label>
       <div class="button-row">
         <button class="btn primary" id="join-btn">Join Game</button>
         <button class="btn ghost" id="host-btn">Create Lobby</button>
@@ -381,19 +540,65 @@ introOverlay.innerHTML = `
         <button class="btn secondary" id="invite-btn">Copy Invite Link</button>
         <button class="btn primary" id="start-btn">Start Game</button>
       </div>
+      <div class="lobby-section" id="bot-section" style="display:none">
+        <h3>Computer players</h3>
+        <div class="button-row">
+          <select id="bot-difficulty">
+            ${BOT_DIFFICULTIES.map((level) => `<option value="${level}"${level === 'normal' ? ' selected' : ''}>${level}</option>`).join('')}
+          </select>
+          <button class="btn secondary" id="add-bot-btn">Add bot</button>
+        </div>
+        <div class="lobby-list" id="bot-list"></div>
+      </div>
+      <div class="lobby-section">
+        <h3>Practice</h3>
+        <p class="muted">A full game against computer players, right here in the browser. No server needed.</p>
+        <div class="button-row">
+          <select id="practice-opponents">
+            ${Array.from({ length: MAX_PLAYERS - MIN_PLAYERS + 1 }, (_, i) => MIN_PLAYERS - 1 + i)
+              .map((n) => `<option value="${n}"${n === 3 ? ' selected' : ''}>${n} opponents</option>`)
+              .join('')}
+          </select>
+          <select id="practice-difficulty">
+            ${BOT_DIFFICULTIES.map((level) => `<option value="${level}"${level === 'normal' ? ' selected' : ''}>${level}</option>`).join('')}
+          </select>
+          <button class="btn secondary" id="practice-btn">Practice</button>
+        </div>
+      </div>
+      <div class="lobby-section">
+        <h3>Pass and play</h3>
+        <p class="muted">Several dwarves at one screen, passing the device on each turn.</p>
+        <label class="field">
+          <span>Players at this device</span>
+          <input type="text" id="hotseat-names" placeholder="Ann, Bo, Cy" />
+        </label>
+        <div class="button-row">
+          <select id="hotseat-bots">
+            ${Array.from({ length: MAX_PLAYERS - 1 }, (_, n) => `<option value="${n}">${n ? `${n} computer players` : 'No computer players'}</option>`).join('')}
+          </select>
+          <button class="btn secondary" id="hotseat-btn">Pass and play</button>
+        </div>
+      </div>
       <div class="lobby-section">
         <h3>Available Lobbies</h3>
         <div class="lobby-list" id="lobby-list"></div>
       </div>
-      <p class="muted" id="invite-hint">Lobbies are local for now; share the link and pick one to join.</p>
+      <div class="lobby-section">
+        <h3>Recent games</h3>
+        <div class="lobby-list" id="recent-games"></div>
+      </div>
+      <p class="muted" id="invite-hint">Pick a lobby below, or create one and copy its invite link for friends.</p>
       <p class="muted" id="status-hint"></p>
+      <div class="button-row">
+        <p class="muted" id="account-hint"></p>
+        <button class="btn secondary" id="profile-btn">Profile</button>
+        <button class="btn ghost" id="logout-btn">Log out</button>
+      </div>
     </div>
   </div>
 `;
 document.body.appendChild(introOverlay);
 
-type Lobby = { code: string; name: string; hostId?: string; status?: string; createdAt?: number; capacity?: number; currentCount?: number };
-
 const API_BASE = import.meta.env.VITE_SERVER_URL ?? 'http://localhost:4173';
 const CLIENT_ID_KEY = 'saboteur-client-id';
 const clientId = (() => {
@@ -404,65 +609,104 @@ const clientId = (() => {
   return v;
 })();
 
-const fetchLobbies = async (): Promise<Lobby[]> => {
+// How the server recognises us in lobby listings and bans: the account when signed in, else this browser
+const lobbyIdentity = () => loadSession()?.userId ?? clientId;
+
+const fetchLobby = async (code: string): Promise<LobbySummary | null> => {
   try {
-    const res = await fetch(`${API_BASE}/api/lobbies`);
+    const res = await fetch(`${API_BASE}/api/lobbies/${encodeURIComponent(code)}`);
     if (!res.ok) throw new Error('failed');
-    return (await res.json()) as Lobby[];
+    return (await res.json()) as LobbySummary;
   } catch (err) {
-    console.warn('Failed to fetch lobbies', err);
-    return [];
+    console.warn('Failed to fetch lobby', err);
+    return null;
   }
 };
 
-const createLobby = async (name: string, capacity: number): Promise<Lobby | null> => {
+const createLobby = async (
+  name: string,
+  capacity: number,
+  isPrivate: boolean,
+  passcode: string,
+  seed?: number,
+): Promise<LobbySummary | null> => {
   try {
     const res = await fetch(`${API_BASE}/api/lobbies`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ name, capacity, hostId: clientId }),
+      body: JSON.stringify({ name, capacity, hostId: lobbyIdentity(), isPrivate, passcode, seed }),
     });
     if (!res.ok) throw new Error('failed');
-    return (await res.json()) as Lobby;
+    return (await res.json()) as LobbySummary;
   } catch (err) {
     console.warn('Failed to create lobby', err);
     return null;
   }
 };
 
+// Kept current by the server's lobby browser channel while the intro screen is open
+let lobbies: LobbySummary[] = [];
+let lobbiesLoaded = false;
+
 const renderLobbyList = () => {
   const list = introOverlay.querySelector<HTMLElement>('#lobby-list');
   if (!list) return;
-  list.innerHTML = '<p class="muted">Loading lobbies...</p>';
-  void fetchLobbies().then((lobbies) => {
-    list.innerHTML = '';
-    if (lobbies.length === 0) {
-      list.innerHTML = '<p class="muted">No lobbies yet. Create one to get started.</p>';
-      return;
-    }
-    lobbies.forEach((lobby) => {
-      const card = document.createElement('div');
-      card.className = 'lobby-card';
-      card.innerHTML = `
-        <div class="lobby-name">${lobby.name ?? lobby.code}</div>
-        <div class="lobby-host">Code: ${lobby.code}</div>
-        <div class="lobby-meta">Players: ${lobby.currentCount ?? 0} / ${lobby.capacity ?? 6} • Status: ${lobby.status ?? 'open'}</div>
-        <button class="btn primary">Join</button>
-      `;
-      card.querySelector('button')?.addEventListener('click', () => {
-        currentLobby = lobby;
-        desiredRoom = lobby.code;
-        const status = introOverlay.querySelector<HTMLElement>('#status-hint');
-        if (status) status.textContent = `Selected lobby ${lobby.code}. Press Start Game to enter.`;
-        void startGame();
-      });
-      list.appendChild(card);
+  if (!lobbiesLoaded) {
+    const connecting = useGameStore.getState().connection.state !== 'connected';
+    list.innerHTML = `<p class="muted">${connecting ? 'Connecting to the server...' : 'Loading lobbies...'}</p>`;
+    return;
+  }
+  list.innerHTML = '';
+  if (lobbies.length === 0) {
+    list.innerHTML = '<p class="muted">No lobbies yet. Create one to get started.</p>';
+    return;
+  }
+  lobbies.forEach((lobby) => {
+    const capacity = lobby.capacity ?? 6;
+    const full = (lobby.currentCount ?? 0) >= capacity;
+    const card = document.createElement('div');
+    card.className = 'lobby-card';
+    card.innerHTML = `
+      <div class="lobby-name">${lobby.hasPasscode ? '🔑 ' : ''}${escapeHtml(lobby.name ?? lobby.code)}</div>
+      <div class="lobby-host">Code: ${lobby.code}</div>
+      <div class="lobby-meta">Players: ${lobby.currentCount ?? 0} / ${capacity} • Status: ${lobby.locked ? 'locked' : lobby.status ?? 'open'}</div>
+      <button class="btn primary">${full ? 'Spectate' : 'Join'}</button>
+    `;
+    card.querySelector('button')?.addEventListener('click', () => {
+      if (lobby.hasPasscode) {
+        lobbyPasscode = promptPasscode(lobby.code);
+        if (!lobbyPasscode) return;
+      }
+      currentLobby = lobby;
+      desiredRoom = lobby.code;
+      const status = introOverlay.querySelector<HTMLElement>('#status-hint');
+      if (status) status.textContent = `${full ? 'Spectating' : 'Joining'} lobby ${lobby.code}...`;
+      void joinLobby(full);
     });
+    list.appendChild(card);
   });
 };
 
-// start polling once lobbies can be rendered
-ensureLobbyPolling(introOverlay);
+const openLobbyBrowser = () =>
+  watchLobbies({
+    onList: (next) => {
+      lobbies = next;
+      lobbiesLoaded = true;
+      renderLobbyList();
+    },
+    onUpsert: (lobby) => {
+      const index = lobbies.findIndex((entry) => entry.code === lobby.code);
+      lobbies = index === -1 ? [...lobbies, lobby] : lobbies.map((entry, i) => (i === index ? lobby : entry));
+      renderLobbyList();
+    },
+    onRemove: (code) => {
+      lobbies = lobbies.filter((entry) => entry.code !== code);
+      renderLobbyList();
+    },
+  });
+
+renderLobbyList();
+openLobbyBrowser();
 
 const loadProfile = (): Profile | undefined => {
   try {
@@ -481,27 +725,27 @@ const saveProfile = (profile: Profile) => {
   localStorage.setItem('saboteur-name', profile.name);
 };
 
-const loadAccount = (): Account | undefined => {
-  try {
-    const raw = localStorage.getItem('saboteur-account');
-    if (raw) return JSON.parse(raw) as Account;
-  } catch {
-    /* ignore */
-  }
-  return undefined;
-};
-
-const saveAccount = (account: Account) => {
-  localStorage.setItem('saboteur-account', JSON.stringify(account));
-  saveProfile(account);
-};
-
 const profileName = () => loadProfile()?.name ?? 'Dwarf-317';
 
-let currentLobby: Lobby | undefined;
-let gameStarted = false;
-let accountCreated = !!loadAccount();
+let currentLobby: LobbySummary | undefined;
+let lobbyJoined = false;
+let gameViewShown = false;
+// Set while a practice or pass-and-play game runs in this browser instead of on the server
+let localGame: LocalGame | undefined;
+// The pass-and-play seat being handed the device
+let nextSeatId: string | undefined;
+let signedIn = !!loadSession();
 let desiredRoom = 'default-room';
+let lobbyPasscode: string | undefined;
+
+const promptPasscode = (code: string) => window.prompt(`Passcode for lobby ${code}:`)?.trim() || undefined;
+
+const inviteLink = (code: string) => {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.searchParams.set('room', code);
+  return url.toString();
+};
 const clearLegacyLobbies = () => localStorage.removeItem('saboteur-lobbies');
 clearLegacyLobbies();
 
@@ -524,37 +768,231 @@ const bootstrap = async () => {
   }
 };
 
-const startGame = async () => {
-  if (gameStarted) return;
-  gameStarted = true;
+// Joining seats the player in the room's lobby; the game view opens once the host starts
+const joinLobby = async (spectate = false) => {
+  if (lobbyJoined) return;
+  lobbyJoined = true;
   const nameInput = introOverlay.querySelector<HTMLInputElement>('#player-name');
   const chosenName = nameInput?.value.trim() || profileName();
   if (chosenName) {
     saveProfile({ ...(loadProfile() ?? {}), name: chosenName });
   }
+  await startProximityChat();
+  await connectToServer(desiredRoom, clientId, chosenName, { passcode: lobbyPasscode, spectate });
+  hud.pushLog('Connected to Saboteur server.');
+};
+
+// Back to the dashboard after the host removes us or the lobby turns us away
+const leaveRoom = (message: string) => {
+  lobbyJoined = false;
+  gameViewShown = false;
+  nuggetPicker.hide();
+  roundModal.classList.add('hidden');
+  roundModal.style.display = 'none';
+  resetToIntro();
+  const status = introOverlay.querySelector<HTMLElement>('#status-hint');
+  if (status) status.textContent = message;
+  renderLobbyList();
+};
+
+window.addEventListener('kicked', (e: any) => {
+  const detail = e.detail as KickedPayload;
+  leaveRoom(`You were ${detail.reason} from lobby ${detail.roomCode} by the host.`);
+});
+
+window.addEventListener('join-rejected', (e: any) => {
+  const detail = e.detail as JoinRejectedPayload;
+  leaveRoom(`Could not join ${detail.roomCode}: ${detail.reason}.`);
+  if (detail.sessionExpired) {
+    signOut(detail.reason);
+  } else if (detail.needsPasscode) {
+    lobbyPasscode = promptPasscode(detail.roomCode);
+    if (lobbyPasscode) void joinLobby();
+  } else if (detail.full && confirm(`${detail.reason}. Watch the game as a spectator instead?`)) {
+    void joinLobby(true);
+  }
+});
+
+const enterGameView = () => {
+  if (gameViewShown) return;
+  gameViewShown = true;
   introOverlay.classList.add('hidden');
+  unwatchLobbies();
   showGameUI();
+  syncHostControls();
+  // Spectators have no hand to play and no role to show
+  if (useGameStore.getState().spectator) {
+    handPanel.element.style.display = 'none';
+    hud.setSpectating();
+  }
   turnTimer.style.display = '';
-  await startProximityChat();
-  await connectToServer(desiredRoom, clientId, chosenName);
-  hud.pushLog('Connected to Saboteur server.');
+};
+
+const renderLobbyStatus = (playerCount: number) => {
+  const status = introOverlay.querySelector<HTMLElement>('#status-hint');
+  if (!status) return;
+  const host = isLobbyHost();
+  status.textContent = `In lobby ${desiredRoom}: ${playerCount} dwarf${playerCount === 1 ? '' : 'ves'} waiting. ${
+    host ? `Press Start Game once at least ${MIN_PLAYERS} have joined.` : 'Waiting for the host to start.'
+  }`;
+  renderBotControls();
+};
+
+// The host can fill empty seats with computer players until the game starts
+const renderBotControls = () => {
+  const section = introOverlay.querySelector<HTMLElement>('#bot-section');
+  const list = introOverlay.querySelector<HTMLElement>('#bot-list');
+  if (!section || !list) return;
+  const { players, metrics } = useGameStore.getState();
+  const shown = lobbyJoined && isLobbyHost() && metrics?.phase === 'lobby';
+  section.style.display = shown ? '' : 'none';
+  if (!shown) return;
+  const bots = Object.values(players).filter((player) => player.bot);
+  list.innerHTML = bots.length ? '' : '<p class="muted">No computer players yet.</p>';
+  bots.forEach((bot) => {
+    const card = document.createElement('div');
+    card.className = 'lobby-card';
+    card.innerHTML = `
+      <div class="lobby-name">🤖 ${escapeHtml(bot.name)}</div>
+      <div class="lobby-meta">Difficulty: ${bot.bot}</div>
+      <button class="btn ghost">Remove</button>
+    `;
+    card.querySelector('button')?.addEventListener('click', () => emitRemoveBot(bot.id));
+    list.appendChild(card);
+  });
+};
+
+introOverlay.querySelector<HTMLButtonElement>('#add-bot-btn')?.addEventListener('click', () => {
+  const difficulty = introOverlay.querySelector<HTMLSelectElement>('#bot-difficulty')?.value as BotDifficulty;
+  emitAddBot(difficulty);
+});
+
+const passScreen = createPassScreen({
+  onConfirm: () => {
+    passScreen.hide();
+    handPanel.element.style.display = '';
+    hud.setRoleHidden(false);
+    if (nextSeatId) localGame?.takeSeat(nextSeatId);
+  },
+});
+document.body.appendChild(passScreen.element);
+
+// Nothing private stays on screen while the device changes hands
+const passDevice = (seat: { id: string; name: string }) => {
+  nextSeatId = seat.id;
+  handPanel.element.style.display = 'none';
+  hud.setRoleHidden(true);
+  passScreen.show(seat.name);
+};
+
+const SEED_HINT = `The seed must be a whole number from 0 to ${MAX_SEED}.`;
+
+// The optional seed typed into the intro form, for lobbies and local games alike; null when it isn't one
+const chosenSeed = () => {
+  const text = introOverlay.querySelector<HTMLInputElement>('#lobby-seed')?.value.trim() ?? '';
+  if (!text) return undefined;
+  const seed = Number(text);
+  return isSeed(seed) ? seed : null;
+};
+
+const startLocalGame = (seats: LocalSeat[]) => {
+  const status = introOverlay.querySelector<HTMLElement>('#status-hint');
+  if (lobbyJoined) {
+    if (status) status.textContent = 'Leave the current lobby before starting a local game.';
+    return;
+  }
+  const seed = chosenSeed();
+  if (seed === null) {
+    if (status) status.textContent = SEED_HINT;
+    return;
+  }
+  localGame = new LocalGame(seats, { onHandover: passDevice, seed });
+  lobbyJoined = true;
+  connectLocal(localGame);
+  // The welcome that follows opens the game view like any other deal
+  localGame.start();
+};
+
+const leaveLocalGame = () => {
+  localGame?.stop();
+  localGame = undefined;
+  nextSeatId = undefined;
+  disconnectLocal();
+  lobbyJoined = false;
+  gameViewShown = false;
+  nuggetPicker.hide();
+  passScreen.hide();
+  hud.setRoleHidden(false);
+  roundModal.classList.add('hidden');
+  roundModal.style.display = 'none';
+};
+
+const localBots = (count: number) => {
+  const difficulty = introOverlay.querySelector<HTMLSelectElement>('#practice-difficulty')?.value as BotDifficulty;
+  return BOT_NAMES.slice(0, count).map((name): LocalSeat => ({ name, bot: difficulty }));
+};
+
+introOverlay.querySelector<HTMLButtonElement>('#practice-btn')?.addEventListener('click', () => {
+  const name = introOverlay.querySelector<HTMLInputElement>('#player-name')?.value.trim() || profileName();
+  const opponents = Number(introOverlay.querySelector<HTMLSelectElement>('#practice-opponents')?.value) || MIN_PLAYERS - 1;
+  startLocalGame([{ name }, ...localBots(opponents)]);
+});
+
+introOverlay.querySelector<HTMLButtonElement>('#hotseat-btn')?.addEventListener('click', () => {
+  const status = introOverlay.querySelector<HTMLElement>('#status-hint');
+  const names = (introOverlay.querySelector<HTMLInputElement>('#hotseat-names')?.value ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  const bots = Number(introOverlay.querySelector<HTMLSelectElement>('#hotseat-bots')?.value) || 0;
+  if (names.length < 2) {
+    if (status) status.textContent = 'Enter at least two names, separated by commas, to pass and play.';
+    return;
+  }
+  if (names.length + bots < MIN_PLAYERS || names.length + bots > MAX_PLAYERS) {
+    if (status) status.textContent = `A game needs ${MIN_PLAYERS}–${MAX_PLAYERS} dwarves in all.`;
+    return;
+  }
+  startLocalGame([...names.map((name) => ({ name })), ...localBots(bots)]);
+});
+
+// Once seated the server's host is authoritative; before that the lobby listing decides
+const isLobbyHost = () => {
+  const { playerId, hostId, spectator } = useGameStore.getState();
+  if (spectator) return false;
+  if (playerId && hostId) return playerId === hostId;
+  return !currentLobby?.hostId || currentLobby.hostId === lobbyIdentity();
+};
+
+const syncHostControls = () => {
+  const host = isLobbyHost();
+  restartButton.style.display = host && gameViewShown ? '' : 'none';
+  nextRoundBtn.style.display = host ? '' : 'none';
+  const startButton = introOverlay.querySelector<HTMLButtonElement>('#start-btn');
+  if (startButton) startButton.style.display = host ? '' : 'none';
 };
 
 introOverlay.querySelector<HTMLButtonElement>('#join-btn')?.addEventListener('click', () => {
   desiredRoom = 'default-room';
+  lobbyPasscode = undefined;
   renderLobbyList();
   const status = introOverlay.querySelector<HTMLElement>('#status-hint');
   if (status) status.textContent = 'Pick a lobby below or create one.';
 });
 introOverlay.querySelector<HTMLButtonElement>('#start-btn')?.addEventListener('click', () => {
-  if (currentLobby && currentLobby.hostId && currentLobby.hostId !== clientId) {
+  const status = introOverlay.querySelector<HTMLElement>('#status-hint');
+  if (!isLobbyHost()) {
     const hint = introOverlay.querySelector<HTMLElement>('#invite-hint');
     if (hint) hint.textContent = 'Waiting for host to start.';
-    const status = introOverlay.querySelector<HTMLElement>('#status-hint');
     if (status) status.textContent = 'Only the host can start this lobby.';
     return;
   }
-  void startGame();
+  if (!lobbyJoined) {
+    if (status) status.textContent = 'Joining lobby... press Start Game once everyone is in.';
+    void joinLobby();
+    return;
+  }
+  emitStartGame();
 });
 introOverlay.querySelector<HTMLButtonElement>('#host-btn')?.addEventListener('click', () => {
   const nameInput = introOverlay.querySelector<HTMLInputElement>('#player-name');
@@ -563,16 +1001,26 @@ introOverlay.querySelector<HTMLButtonElement>('#host-btn')?.addEventListener('cl
   const lobbyName = `Lobby by ${chosenName}`;
   const sizeSelect = introOverlay.querySelector<HTMLSelectElement>('#lobby-size');
   const capacity = sizeSelect ? Number(sizeSelect.value) || 4 : 4;
-  void createLobby(lobbyName, capacity).then((lobby) => {
+  const isPrivate = !!introOverlay.querySelector<HTMLInputElement>('#lobby-private')?.checked;
+  const passcode = introOverlay.querySelector<HTMLInputElement>('#lobby-passcode')?.value.trim() ?? '';
+  const seed = chosenSeed();
+  if (seed === null) {
+    const status = introOverlay.querySelector<HTMLElement>('#status-hint');
+    if (status) status.textContent = SEED_HINT;
+    return;
+  }
+  void createLobby(lobbyName, capacity, isPrivate, passcode, seed).then((lobby) => {
     if (lobby) {
       currentLobby = lobby;
       desiredRoom = lobby.code;
+      lobbyPasscode = passcode || undefined;
       renderLobbyList();
-      // host must click Start Game to actually begin
+      // The host waits in the lobby and clicks Start Game once everyone has joined
       const hint = introOverlay.querySelector<HTMLElement>('#invite-hint');
       if (hint) hint.textContent = `Lobby ${lobby.code} created (${capacity} players). Press Start Game when ready.`;
       const status = introOverlay.querySelector<HTMLElement>('#status-hint');
       if (status) status.textContent = `Lobby created. Waiting for players... (${lobby.currentCount ?? 0}/${capacity})`;
+      void joinLobby();
     } else {
       const status = introOverlay.querySelector<HTMLElement>('#status-hint');
       if (status) status.textContent = 'Failed to create lobby. Make sure the server is running.';
@@ -582,7 +1030,7 @@ introOverlay.querySelector<HTMLButtonElement>('#host-btn')?.addEventListener('cl
 introOverlay.querySelector<HTMLButtonElement>('#invite-btn')?.addEventListener('click', async () => {
   const hint = introOverlay.querySelector<HTMLElement>('#invite-hint');
   try {
-    await navigator.clipboard.writeText(window.location.href);
+    await navigator.clipboard.writeText(inviteLink(desiredRoom));
     if (hint) hint.textContent = 'Link copied — share it with friends!';
   } catch (err) {
     if (hint) hint.textContent = 'Copy failed; share this URL manually.';
@@ -595,8 +1043,141 @@ const nameField = document.querySelector<HTMLInputElement>('#player-name');
 const storedProfile = loadProfile();
 if (nameField && storedProfile?.name) nameField.value = storedProfile.name;
 
-// Account creation overlay (shown if no profile)
-if (!accountCreated) {
+// Invite links (?room=CODE) select their lobby and join once the player has a profile
+const invitedRoom = new URLSearchParams(window.location.search).get('room') ?? undefined;
+
+const acceptInvite = async () => {
+  if (!invitedRoom || lobbyJoined) return;
+  const status = introOverlay.querySelector<HTMLElement>('#status-hint');
+  const lobby = await fetchLobby(invitedRoom);
+  if (!lobby) {
+    if (status) status.textContent = `Lobby ${invitedRoom} no longer exists.`;
+    return;
+  }
+  currentLobby = lobby;
+  desiredRoom = lobby.code;
+  if (lobby.hasPasscode) {
+    lobbyPasscode = promptPasscode(lobby.code);
+    if (!lobbyPasscode) {
+      if (status) status.textContent = `Lobby ${lobby.code} needs a passcode to join.`;
+      return;
+    }
+  }
+  if (status) status.textContent = `Joining ${lobby.name ?? lobby.code}...`;
+  void joinLobby();
+};
+
+// A seat held from before a refresh is reclaimed as soon as the player is signed in or
+// continues as a guest; otherwise any invite is followed
+const enterLobbies = () => {
+  const resumable = loadResumeRecord();
+  if (!resumable || lobbyJoined || (invitedRoom && invitedRoom !== resumable.roomCode)) {
+    void acceptInvite();
+    return;
+  }
+  desiredRoom = resumable.roomCode;
+  const status = introOverlay.querySelector<HTMLElement>('#status-hint');
+  if (status) status.textContent = `Rejoining lobby ${resumable.roomCode}...`;
+  void joinLobby();
+};
+if (signedIn) enterLobbies();
+
+const matchOutcome = (match: MatchSummary, selfId?: string) => {
+  if (match.status === 'playing') return 'In progress';
+  if (match.status === 'abandoned') return `Abandoned after ${match.roundsPlayed} round${match.roundsPlayed === 1 ? '' : 's'}`;
+  if (selfId && match.winners.includes(selfId)) return 'You won';
+  const names = match.players.filter((player) => match.winners.includes(player.id)).map((player) => player.name);
+  return `Won by ${names.join(', ') || 'nobody'}`;
+};
+
+// The signed-in player's games, newest first
+const renderRecentGames = async () => {
+  const list = introOverlay.querySelector<HTMLElement>('#recent-games');
+  if (!list) return;
+  const session = loadSession();
+  if (!session) {
+    list.innerHTML = '<p class="muted">Log in to see your recent games.</p>';
+    return;
+  }
+  list.innerHTML = '<p class="muted">Loading recent games...</p>';
+  const matches = await fetchMatches(session.userId);
+  if (!matches) {
+    list.innerHTML = '<p class="muted">Could not load recent games.</p>';
+    return;
+  }
+  if (matches.length === 0) {
+    list.innerHTML = '<p class="muted">No games played yet.</p>';
+    return;
+  }
+  list.innerHTML = '';
+  matches.forEach((match) => {
+    const self = match.players.find((player) => player.userId === session.userId);
+    const card = document.createElement('div');
+    card.className = 'lobby-card';
+    card.innerHTML = `
+      <div class="lobby-name">${new Date(match.startedAt).toLocaleString()}</div>
+      <div class="lobby-host">Lobby: ${match.roomCode} • ${escapeHtml(matchOutcome(match, self?.id))}${typeof match.seed === 'number' ? ` • Seed ${match.seed}` : ''}</div>
+      <div class="lobby-meta">${match.players.map((player) => `${escapeHtml(player.name)} ${player.gold}🪙`).join(' • ')}</div>
+      ${match.status === 'playing' ? '' : '<button class="btn secondary">Watch replay</button>'}
+    `;
+    card.querySelector('button')?.addEventListener('click', () => void startReplay(match.id));
+    list.appendChild(card);
+  });
+};
+
+// Replays drive the scene and insights panel straight from the recorded game, leaving the live store alone
+const replayViewer = createReplayViewer({
+  onFrame: (frame) => {
+    scene.setPeekedGoals(frame.goals);
+    scene.setBoard(frame.board);
+    void scene.setPlayers(frame.players);
+    scene.setActivePlayer(frame.actorId);
+    vizPanel.update(frame.metrics, frame.players);
+    scene.updateWallBoards(frame.metrics, frame.players);
+  },
+  onExit: () => stopReplay(),
+});
+document.body.appendChild(replayViewer.element);
+
+const startReplay = async (matchId: string) => {
+  const status = introOverlay.querySelector<HTMLElement>('#status-hint');
+  if (lobbyJoined) {
+    if (status) status.textContent = 'Replays can be watched once you are out of the lobby.';
+    return;
+  }
+  const match = await fetchMatch(matchId);
+  const frames = match ? buildReplayFrames(match) : [];
+  if (!match || !frames.length) {
+    if (status) status.textContent = 'That game could not be loaded for replay.';
+    return;
+  }
+  introOverlay.classList.add('hidden');
+  unwatchLobbies();
+  mount.style.display = 'block';
+  vizPanel.element.style.display = '';
+  replayViewer.load(match, frames);
+};
+
+const stopReplay = () => {
+  replayViewer.close();
+  const { board, players, peekedGoals } = useGameStore.getState();
+  scene.setPeekedGoals(peekedGoals);
+  scene.setBoard(board);
+  void scene.setPlayers(players);
+  resetToIntro();
+};
+
+const renderAccount = () => {
+  const hint = introOverlay.querySelector<HTMLElement>('#account-hint');
+  const session = loadSession();
+  if (hint) hint.textContent = session ? `Signed in as ${session.name}.` : 'Not signed in.';
+  const logoutButton = introOverlay.querySelector<HTMLButtonElement>('#logout-btn');
+  if (logoutButton) logoutButton.textContent = session ? 'Log out' : 'Log in';
+  void renderRecentGames();
+};
+
+// Sign-up and login go through the server; only the signed session token is kept in the browser
+const showAccountOverlay = (message?: string) => {
   const accountOverlay = document.createElement('div');
   accountOverlay.className = 'account-overlay';
   accountOverlay.innerHTML = `
@@ -604,7 +1185,7 @@ if (!accountCreated) {
       <div class="intro-hero">
         <p class="eyebrow">Create Account</p>
         <h1>Your Saboteur Profile</h1>
-        <p class="lede">Choose a display name and an optional avatar URL.</p>
+        <p class="lede">${message ?? 'Choose a display name and an optional avatar URL, or log in to an existing account. Guests can still practise and play pass-and-play without the server.'}</p>
       </div>
       <div class="intro-actions">
         <label class="field">
@@ -626,7 +1207,9 @@ if (!accountCreated) {
         <div class="button-row">
           <button class="btn primary" id="acct-save">Create Profile</button>
           <button class="btn ghost" id="acct-login">Already have an account? Login</button>
+          <button class="btn ghost" id="acct-guest">Continue as guest</button>
         </div>
+        <p class="muted" id="acct-error"></p>
       </div>
     </div>
   `;
@@ -635,37 +1218,93 @@ if (!accountCreated) {
   const acctAvatar = accountOverlay.querySelector<HTMLInputElement>('#acct-avatar');
   const acctPass = accountOverlay.querySelector<HTMLInputElement>('#acct-pass');
   const acctPass2 = accountOverlay.querySelector<HTMLInputElement>('#acct-pass2');
-  const acctLogin = accountOverlay.querySelector<HTMLButtonElement>('#acct-login');
+  const acctError = accountOverlay.querySelector<HTMLElement>('#acct-error');
+  const buttons = accountOverlay.querySelectorAll<HTMLButtonElement>('button');
+  if (acctName) acctName.value = loadProfile()?.name ?? '';
   acctName?.focus();
-  accountOverlay.querySelector<HTMLButtonElement>('#acct-save')?.addEventListener('click', () => {
+  const submit = async (action: typeof login) => {
     const nameVal = acctName?.value.trim();
-    const avatarVal = acctAvatar?.value.trim();
     const passVal = acctPass?.value ?? '';
-    const passVal2 = acctPass2?.value ?? '';
     if (!nameVal) return alert('Please enter a display name');
     if (!passVal) return alert('Please enter a password');
-    if (passVal !== passVal2) return alert('Passwords do not match');
-    saveAccount({ name: nameVal, avatar: avatarVal || undefined, password: passVal });
-    if (nameField) nameField.value = nameVal;
-    accountCreated = true;
-    accountOverlay.remove();
-  });
-  acctLogin?.addEventListener('click', () => {
-    const existing = loadAccount();
-    if (!existing) {
-      alert('No account found. Create one first.');
-      return;
-    }
-    const passVal = acctPass?.value ?? '';
-    if (existing.password && passVal !== existing.password) {
-      alert('Incorrect password');
+    buttons.forEach((button) => (button.disabled = true));
+    const result = await action(nameVal, passVal);
+    buttons.forEach((button) => (button.disabled = false));
+    if (!result.session) {
+      if (acctError) acctError.textContent = result.error;
       return;
     }
-    if (nameField) nameField.value = existing.name;
-    accountCreated = true;
+    const avatarVal = acctAvatar?.value.trim();
+    const profile = avatarVal
+      ? (await updateProfile({ avatarUrl: avatarVal })).profile
+      : await fetchProfile(result.session.userId);
+    rememberProfile(profile?.displayName ?? result.session.name, profile?.avatarUrl);
+    signedIn = true;
+    renderAccount();
     accountOverlay.remove();
+    enterLobbies();
+  };
+  accountOverlay.querySelector<HTMLButtonElement>('#acct-save')?.addEventListener('click', () => {
+    if ((acctPass?.value ?? '') !== (acctPass2?.value ?? '')) return alert('Passwords do not match');
+    void submit(register);
   });
-}
+  accountOverlay.querySelector<HTMLButtonElement>('#acct-login')?.addEventListener('click', () => void submit(login));
+  // Guests need no server at all; online games still seat them, just without profile stats
+  accountOverlay.querySelector<HTMLButtonElement>('#acct-guest')?.addEventListener('click', () => {
+    const nameVal = acctName?.value.trim();
+    if (nameVal) rememberProfile(nameVal, loadProfile()?.avatar);
+    accountOverlay.remove();
+    enterLobbies();
+  });
+};
+
+// Mirrors the server profile locally so the name field and lobby names pick it up
+const rememberProfile = (name: string, avatar?: string | null) => {
+  saveProfile({ ...(loadProfile() ?? {}), name, avatar: avatar ?? undefined });
+  if (nameField) nameField.value = name;
+};
+
+const profilePanel = createProfilePanel({
+  onSave: async (update) => {
+    const result = await updateProfile(update);
+    if (!result.profile) {
+      profilePanel.showError(result.error ?? 'Failed to save profile');
+      return;
+    }
+    rememberProfile(result.profile.displayName, result.profile.avatarUrl);
+    profilePanel.show(result.profile);
+  },
+});
+document.body.appendChild(profilePanel.element);
+
+introOverlay.querySelector<HTMLButtonElement>('#profile-btn')?.addEventListener('click', async () => {
+  const session = loadSession();
+  if (!session) return signOut('Log in to see your profile.');
+  const profile = await fetchProfile(session.userId);
+  if (profile) {
+    profilePanel.show(profile);
+  } else {
+    const status = introOverlay.querySelector<HTMLElement>('#status-hint');
+    if (status) status.textContent = 'Could not load your profile. Make sure the server is running.';
+  }
+});
+
+// Logging out (or an expired token) drops the session and any seat it was holding
+const signOut = (message?: string) => {
+  clearSession();
+  clearResumeRecord();
+  signedIn = false;
+  renderAccount();
+  showAccountOverlay(message);
+};
+
+introOverlay.querySelector<HTMLButtonElement>('#logout-btn')?.addEventListener('click', () => {
+  if (lobbyJoined) return alert('Leave the current lobby before logging out');
+  signOut();
+});
+
+renderAccount();
+if (!signedIn) showAccountOverlay();
 
 function winnerMessage(team: Role) {
   return team === 'miner' ? 'Miners located the gold vein! Mission success.' : 'Saboteurs collapsed the mine. Retreat!';
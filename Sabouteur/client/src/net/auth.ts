@@ -0,0 +1,42 @@
+import type { AuthSession } from './types';
+
+const API_BASE = import.meta.env.VITE_SERVER_URL ?? 'http://localhost:4173';
+
+const SESSION_KEY = 'saboteur-session';
+
+// Older builds kept the whole account, password included, in the browser
+localStorage.removeItem('saboteur-account');
+
+/** The signed-in account, or undefined once its token has expired. */
+export const loadSession = (): AuthSession | undefined => {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY);
+    const session = raw ? (JSON.parse(raw) as AuthSession) : undefined;
+    return session && session.expiresAt > Date.now() ? session : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const clearSession = () => localStorage.removeItem(SESSION_KEY);
+
+const authenticate = async (path: 'register' | 'login', name: string, password: string) => {
+  try {
+    const res = await fetch(`${API_BASE}/api/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, password }),
+    });
+    const body = await res.json();
+    if (!res.ok) return { error: (body?.error as string) ?? `Failed to ${path}` };
+    localStorage.setItem(SESSION_KEY, JSON.stringify(body));
+    return { session: body as AuthSession };
+  } catch (err) {
+    console.warn(`Failed to ${path}`, err);
+    return { error: 'Could not reach the server' };
+  }
+};
+
+export const register = (name: string, password: string) => authenticate('register', name, password);
+
+export const login = (name: string, password: string) => authenticate('login', name, password);
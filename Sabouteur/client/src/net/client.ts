@@ -1,15 +1,20 @@
 import { io, Socket } from 'socket.io-client';
 import type {
+  BotDifficulty,
   ClientToServerEvents,
   ServerToClientEvents,
   PlayerStateSnapshot,
   CardPlacementPayload,
   RockfallPayload,
   ToolEffectPayload,
+  DiscardPayload,
+  LobbySummary,
+  MapPeekPayload,
   SocketChatMessage,
 } from './types';
 import type { CardInstance } from '../game/cards';
 import { useGameStore } from '../state/store';
+import { loadSession } from './auth';
 
 const SERVER_URL = import.meta.env.VITE_SERVER_URL ?? 'http://localhost:4173';
 
@@ -25,11 +30,63 @@ export const registerPeerHooks = (hooks: PeerHooks) => {
   peerHooks = hooks;
 };
 
+// Reconnection is driven by hand below so the HUD knows exactly when the next attempt fires
 export const socket: Socket<ServerToClientEvents, ClientToServerEvents> = io(SERVER_URL, {
   autoConnect: false,
+  reconnection: false,
   transports: ['websocket'],
 });
 
+type ServerEvent = keyof ServerToClientEvents;
+
+/** A game running in this browser in place of the server: it receives what the client would emit. */
+export interface LocalTransport {
+  handle: (event: keyof ClientToServerEvents, ...args: unknown[]) => void;
+}
+
+// While set, emits go to the local game instead of the socket
+let localGame: LocalTransport | undefined;
+const localHandlers: { [E in ServerEvent]?: ServerToClientEvents[E] } = {};
+
+// Game events are handled the same whether the server or a local game sends them
+const onServer = <E extends ServerEvent>(event: E, handler: ServerToClientEvents[E]) => {
+  localHandlers[event] = handler;
+  socket.on(event, handler as never);
+};
+
+/** Feeds an event from a local game through the same handlers as the socket's. */
+export const deliverLocal = <E extends ServerEvent>(event: E, ...args: Parameters<ServerToClientEvents[E]>) => {
+  const handler = localHandlers[event] as ((...payload: Parameters<ServerToClientEvents[E]>) => void) | undefined;
+  handler?.(...args);
+};
+
+const send = <E extends keyof ClientToServerEvents>(event: E, ...args: Parameters<ClientToServerEvents[E]>) => {
+  if (localGame) {
+    localGame.handle(event, ...args);
+    return;
+  }
+  socket.emit(event, ...args);
+};
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+const RESUME_KEY = 'saboteur-resume';
+
+type ResumeRecord = { roomCode: string; token: string };
+
+/** The seat this browser last held, so a refresh or dropped connection can reclaim it. */
+export const loadResumeRecord = (): ResumeRecord | undefined => {
+  try {
+    const raw = localStorage.getItem(RESUME_KEY);
+    return raw ? (JSON.parse(raw) as ResumeRecord) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const clearResumeRecord = () => localStorage.removeItem(RESUME_KEY);
+
 const initName = (preferred?: string) => {
   if (preferred) return preferred;
   const stored = localStorage.getItem('saboteur-name');
@@ -39,74 +96,215 @@ const initName = (preferred?: string) => {
   return generated;
 };
 
-export const connectToServer = (roomCode?: string, userId?: string, name?: string) =>
+type JoinOptions = { passcode?: string; spectate?: boolean };
+
+type Session = JoinOptions & { roomCode?: string; clientId?: string; name: string };
+
+type LobbyBrowserHooks = {
+  onList: (lobbies: LobbySummary[]) => void;
+  onUpsert: (lobby: LobbySummary) => void;
+  onRemove: (code: string) => void;
+};
+
+// Remembered so every reconnect re-sends the same ready handshake
+let session: Session | undefined;
+let lobbyBrowser: LobbyBrowserHooks | undefined;
+let reconnectAttempt = 0;
+let reconnectTimer: number | undefined;
+
+const sendReady = () => {
+  if (!session) return;
+  const { roomCode, clientId, name, passcode, spectate } = session;
+  const resume = loadResumeRecord();
+  socket.emit('ready', {
+    name,
+    roomCode,
+    clientId: clientId ?? null,
+    // Read fresh each time so a logout or expiry applies to the next reconnect
+    sessionToken: loadSession()?.token,
+    resumeToken: resume?.roomCode === roomCode ? resume?.token : undefined,
+    passcode,
+    spectate,
+  });
+};
+
+const scheduleReconnect = () => {
+  window.clearTimeout(reconnectTimer);
+  const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** reconnectAttempt);
+  reconnectAttempt += 1;
+  useGameStore.getState().setConnection({ state: 'offline', attempt: reconnectAttempt, retryAt: Date.now() + delay });
+  reconnectTimer = window.setTimeout(() => {
+    useGameStore.getState().setConnection({ state: 'reconnecting', attempt: reconnectAttempt });
+    socket.connect();
+  }, delay);
+};
+
+socket.on('connect', () => {
+  window.clearTimeout(reconnectTimer);
+  reconnectAttempt = 0;
+  useGameStore.getState().setConnection({ state: 'connected', attempt: 0 });
+  if (lobbyBrowser) socket.emit('watchLobbies');
+  // The resume token reclaims the held seat and the welcome that follows resyncs everything
+  sendReady();
+});
+
+socket.on('disconnect', (reason) => {
+  if (reason === 'io client disconnect' || (!session && !lobbyBrowser)) {
+    useGameStore.getState().setConnection({ state: 'offline', attempt: 0 });
+    return;
+  }
+  scheduleReconnect();
+});
+
+socket.on('connect_error', () => {
+  if (session || lobbyBrowser) scheduleReconnect();
+});
+
+export const connectToServer = (roomCode?: string, clientId?: string, name?: string, options: JoinOptions = {}) =>
   new Promise<void>((resolve, reject) => {
+    session = { roomCode, clientId, name: initName(name), ...options };
+    // Already connected for the lobby browser: just take the seat
     if (socket.connected) {
+      sendReady();
       resolve();
       return;
     }
-    socket.once('connect', () => {
-      useGameStore.getState().setConnection(true);
-      socket.emit('ready', initName(name), roomCode, userId ?? null);
-      resolve();
-    });
+    socket.once('connect', () => resolve());
     socket.once('connect_error', (err) => {
       reject(err);
     });
+    useGameStore.getState().setConnection({ state: 'reconnecting', attempt: 0 });
     socket.connect();
   });
 
+/** Plays against a game running in this browser; the socket stays closed until `disconnectLocal`. */
+export const connectLocal = (game: LocalTransport) => {
+  session = undefined;
+  lobbyBrowser = undefined;
+  window.clearTimeout(reconnectTimer);
+  socket.disconnect();
+  localGame = game;
+  useGameStore.getState().setConnection({ state: 'connected', attempt: 0 });
+};
+
+export const disconnectLocal = () => {
+  localGame = undefined;
+  useGameStore.getState().setConnection({ state: 'offline', attempt: 0 });
+};
+
 const upsertPlayers = (players: PlayerStateSnapshot[]) => {
   const store = useGameStore.getState();
   store.updatePlayers(players);
 };
 
-socket.on('welcome', (payload) => {
-  const { playerId, role, board, players, hand, metrics } = payload;
+onServer('welcome', (payload) => {
+  const { playerId, hostId, locked, spectator, role, board, players, hand, metrics, peekedGoals, roomCode, resumeToken } =
+    payload;
+  if (resumeToken) {
+    localStorage.setItem(RESUME_KEY, JSON.stringify({ roomCode, token: resumeToken }));
+  }
   useGameStore.getState().hydrate({
     playerId,
+    hostId,
+    locked,
+    spectator,
     role,
     board,
     players,
     hand,
     metrics,
+    peekedGoals,
   });
+  // Spectators only listen; voice chat is for seated dwarves
+  if (spectator) return;
+  // Computer players have no voice to connect to
   players.forEach((player) => {
-    if (player.id !== playerId) {
+    if (player.id !== playerId && !player.bot) {
       peerHooks.onJoin?.(player.id);
     }
   });
 });
 
-socket.on('players', (players) => upsertPlayers(players));
+onServer('players', (players) => upsertPlayers(players));
 
-socket.on('playerJoined', (player) => {
+onServer('playerJoined', (player) => {
   useGameStore.getState().upsertPlayer(player);
-  if (player.id !== useGameStore.getState().playerId) {
+  if (player.id !== useGameStore.getState().playerId && !player.bot) {
     peerHooks.onJoin?.(player.id);
   }
 });
 
-socket.on('playerLeft', (playerId) => {
+onServer('playerLeft', (playerId) => {
   useGameStore.getState().removePlayer(playerId);
   peerHooks.onLeave?.(playerId);
 });
 
-socket.on('playerMoved', (player) => {
+onServer('playerMoved', (player) => {
   useGameStore.getState().upsertPlayer(player);
 });
 
-socket.on('boardUpdated', (board) => useGameStore.getState().setBoard(board));
+onServer('boardUpdated', (board) => useGameStore.getState().setBoard(board));
 
-socket.on('handUpdated', (hand: CardInstance[]) => useGameStore.getState().setHand(hand));
+onServer('handUpdated', (hand: CardInstance[]) => useGameStore.getState().setHand(hand));
 
-socket.on('metrics', (metrics) => useGameStore.getState().updateMetrics(metrics));
+onServer('hostChanged', (hostId) => useGameStore.getState().setHost(hostId));
 
-socket.on('newChat', (message) => {
+onServer('lobbyLocked', (locked) => useGameStore.getState().setLocked(locked));
+
+// Removed by the host or turned away at the door: forget the seat but stay connected for browsing
+const leaveSession = () => {
+  session = undefined;
+  clearResumeRecord();
+};
+
+/** Streams the public lobby list (a snapshot, then live changes) while the intro screen is open. */
+export const watchLobbies = (hooks: LobbyBrowserHooks) => {
+  lobbyBrowser = hooks;
+  if (socket.connected) {
+    socket.emit('watchLobbies');
+  } else {
+    socket.connect();
+  }
+};
+
+export const unwatchLobbies = () => {
+  lobbyBrowser = undefined;
+  if (socket.connected) socket.emit('unwatchLobbies');
+};
+
+onServer('lobbyList', (lobbies) => lobbyBrowser?.onList(lobbies));
+
+onServer('lobbyCreated', (lobby) => lobbyBrowser?.onUpsert(lobby));
+
+onServer('lobbyUpdated', (lobby) => lobbyBrowser?.onUpsert(lobby));
+
+onServer('lobbyRemoved', (code) => lobbyBrowser?.onRemove(code));
+
+onServer('kicked', (payload) => {
+  leaveSession();
+  window.dispatchEvent(new CustomEvent('kicked', { detail: payload }));
+});
+
+onServer('joinRejected', (payload) => {
+  leaveSession();
+  window.dispatchEvent(new CustomEvent('join-rejected', { detail: payload }));
+});
+
+onServer('roleAssigned', (role) => useGameStore.getState().setRole(role));
+
+onServer('goalPeeked', ({ tileId, cardKey }) => useGameStore.getState().rememberGoal(tileId, cardKey));
+
+onServer('metrics', (metrics) => useGameStore.getState().updateMetrics(metrics));
+
+onServer('newChat', (message) => {
   peerHooks.onChat?.(message);
 });
 
-socket.on('roundEnded', (payload) => {
+onServer('nuggetDraft', (payload) => {
+  window.dispatchEvent(new CustomEvent('nugget-draft', { detail: payload }));
+});
+
+onServer('roundEnded', (payload) => {
   const store = useGameStore.getState();
   if (store.metrics) {
     store.updateMetrics({ ...store.metrics, round: payload.round });
@@ -117,36 +315,78 @@ socket.on('roundEnded', (payload) => {
   window.dispatchEvent(new CustomEvent('round-ended', { detail: payload }));
 });
 
+onServer('gameEnded', (payload) => {
+  window.dispatchEvent(new CustomEvent('game-ended', { detail: payload }));
+});
+
 export const emitMovement = (position: PlayerStateSnapshot['position'], rotation: PlayerStateSnapshot['rotation']) => {
+  // Buffered moves would replay in a burst on reconnect, so drop them while offline
+  if (!socket.connected) return;
   socket.emit('playerMove', position, rotation);
 };
 
 export const emitCardPlacement = (payload: CardPlacementPayload) => {
-  socket.emit('placeCard', payload);
+  send('placeCard', payload);
 };
 
 export const emitRockfall = (payload: RockfallPayload) => {
-  socket.emit('rockfall', payload);
+  send('rockfall', payload);
 };
 
 export const emitToolEffect = (payload: ToolEffectPayload) => {
-  socket.emit('toolEffect', payload);
+  send('toolEffect', payload);
 };
 
-export const emitChat = (text: string) => socket.emit('sendChat', text);
+export const emitMapPeek = (payload: MapPeekPayload) => {
+  send('peekGoal', payload);
+};
+
+export const emitDiscard = (payload: DiscardPayload) => {
+  send('discardCard', payload);
+};
+
+export const emitChooseNugget = (index: number) => {
+  send('chooseNugget', { index });
+};
+
+export const emitChat = (text: string) => send('sendChat', text);
 
 export const emitRtcOffer = (to: string, description: RTCSessionDescriptionInit) => {
-  socket.emit('rtcOffer', { to, description });
+  send('rtcOffer', { to, description });
 };
 
 export const emitRtcAnswer = (to: string, description: RTCSessionDescriptionInit) => {
-  socket.emit('rtcAnswer', { to, description });
+  send('rtcAnswer', { to, description });
 };
 
 export const emitRtcCandidate = (to: string, candidate: RTCIceCandidateInit) => {
-  socket.emit('rtcCandidate', { to, candidate });
+  send('rtcCandidate', { to, candidate });
+};
+
+export const emitStartGame = () => {
+  send('startGame');
 };
 
 export const emitRestart = () => {
-  socket.emit('restart');
+  send('restart');
+};
+
+export const emitKickPlayer = (targetPlayerId: string) => {
+  send('kickPlayer', { targetPlayerId });
+};
+
+export const emitBanPlayer = (targetPlayerId: string) => {
+  send('banPlayer', { targetPlayerId });
+};
+
+export const emitLockLobby = (locked: boolean) => {
+  send('lockLobby', { locked });
+};
+
+export const emitAddBot = (difficulty: BotDifficulty) => {
+  send('addBot', { difficulty });
+};
+
+export const emitRemoveBot = (targetPlayerId: string) => {
+  send('removeBot', { targetPlayerId });
 };
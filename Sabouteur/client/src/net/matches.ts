@@ -0,0 +1,27 @@
+import type { MatchRecord, MatchSummary } from './types';
+
+const API_BASE = import.meta.env.VITE_SERVER_URL ?? 'http://localhost:4173';
+
+/** Recent games, newest first, optionally only those a given account played in. */
+export const fetchMatches = async (userId?: string): Promise<MatchSummary[] | null> => {
+  try {
+    const query = userId ? `?userId=${encodeURIComponent(userId)}` : '';
+    const res = await fetch(`${API_BASE}/api/matches${query}`);
+    if (!res.ok) throw new Error('failed');
+    return (await res.json()) as MatchSummary[];
+  } catch (err) {
+    console.warn('Failed to fetch matches', err);
+    return null;
+  }
+};
+
+export const fetchMatch = async (id: string): Promise<MatchRecord | null> => {
+  try {
+    const res = await fetch(`${API_BASE}/api/matches/${encodeURIComponent(id)}`);
+    if (!res.ok) throw new Error('failed');
+    return (await res.json()) as MatchRecord;
+  } catch (err) {
+    console.warn('Failed to fetch match', err);
+    return null;
+  }
+};
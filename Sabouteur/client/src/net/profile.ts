@@ -0,0 +1,34 @@
+import type { PlayerProfile, ProfileUpdate } from './types';
+import { loadSession } from './auth';
+
+const API_BASE = import.meta.env.VITE_SERVER_URL ?? 'http://localhost:4173';
+
+export const fetchProfile = async (userId: string): Promise<PlayerProfile | null> => {
+  try {
+    const res = await fetch(`${API_BASE}/api/profile/${encodeURIComponent(userId)}`);
+    if (!res.ok) throw new Error('failed');
+    return (await res.json()) as PlayerProfile;
+  } catch (err) {
+    console.warn('Failed to fetch profile', err);
+    return null;
+  }
+};
+
+/** Edits the signed-in player's own profile; stats are kept by the server and can't be set here. */
+export const updateProfile = async (update: ProfileUpdate) => {
+  const session = loadSession();
+  if (!session) return { error: 'Log in to edit your profile' };
+  try {
+    const res = await fetch(`${API_BASE}/api/profile`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session.token}` },
+      body: JSON.stringify(update),
+    });
+    const body = await res.json();
+    if (!res.ok) return { error: (body?.error as string) ?? 'Failed to save profile' };
+    return { profile: body as PlayerProfile };
+  } catch (err) {
+    console.warn('Failed to save profile', err);
+    return { error: 'Could not reach the server' };
+  }
+};
@@ -1,25 +1,11 @@
-import type { CardInstance, PathConnectors, Role } from '../game/cards';
+import type { CardInstance, PathConnectors, Role, Tool } from '../game/cards';
+import type { BoardState } from '../../../shared/rules/board';
+import type { BotDifficulty } from '../../../shared/rules/bots';
+import type { VisualizationMetrics } from '../../../shared/rules/table';
 
-export type TileType = 'empty' | 'start' | 'goal' | 'path' | 'blocked';
-
-export interface BoardTile {
-  id: string;
-  row: number;
-  col: number;
-  tileType: TileType;
-  connectors?: PathConnectors;
-  cardKey?: string;
-  rotation?: number;
-  revealed?: boolean;
-  ownerId?: string;
-}
-
-export interface BoardState {
-  rows: number;
-  columns: number;
-  tiles: BoardTile[];
-  winningTeam?: Role;
-}
+export type { TileType, BoardTile, BoardState } from '../../../shared/rules/board';
+export type { BotDifficulty } from '../../../shared/rules/bots';
+export type { GamePhase, VisualizationMetrics } from '../../../shared/rules/table';
 
 export interface Vec3 {
   x: number;
@@ -37,36 +23,55 @@ export interface QuaternionLike {
 export interface PlayerStateSnapshot {
   id: string;
   name: string;
+  /** From the player's profile; guests have neither. */
+  color?: string;
+  avatarUrl?: string;
+  /** Set for computer players, which play from the server. */
+  bot?: BotDifficulty;
+  /** A bot is playing this seat while its human is away or disconnected. */
+  autopilot?: boolean;
   role: Role | 'unknown';
   position: Vec3;
   rotation: QuaternionLike;
   connected: boolean;
-  toolBroken: boolean;
+  brokenTools: Tool[];
   suspicion: number;
   score: number;
 }
 
-export interface VisualizationMetrics {
-  deckRemaining: number;
-  progress: number;
-  collapsedTiles: number;
-  suspicionByPlayer: Record<string, number>;
-  turnsTaken: number;
-  goldByPlayer: Record<string, number>;
-  round: number;
-  efficiencyByPlayer: Record<string, number>;
-  activePlayerId?: string;
-  turnEndsAt?: number;
-}
-
 export interface WelcomePayload {
   playerId: string;
-  role: Role;
+  /** Absent while the room is still in its lobby phase. */
+  role?: Role;
   board: BoardState;
   players: PlayerStateSnapshot[];
   hand: CardInstance[];
   metrics: VisualizationMetrics;
+  /** Goals this player has already seen with a map, so a resumed session keeps them. */
+  peekedGoals: Record<string, string>;
   roomCode: string;
+  /** Presented on the next `ready` to reclaim this seat after a disconnect; spectators get none. */
+  resumeToken?: string;
+  /** Watching without a seat, hand or role. */
+  spectator?: boolean;
+  /** The player currently holding host-only controls; it moves on if they drop. */
+  hostId: string;
+  /** Locked rooms turn away new players; held seats can still resume. */
+  locked: boolean;
+}
+
+export interface ReadyPayload {
+  name: string;
+  roomCode?: string;
+  /** Stable per-browser id, used to recognise guests who have not logged in. */
+  clientId?: string | null;
+  /** Signed session from /api/login or /api/register; links the seat to the account. */
+  sessionToken?: string;
+  resumeToken?: string;
+  /** Required to take a new seat in a passcode-protected lobby. */
+  passcode?: string;
+  /** Join as a spectator instead of taking a seat, e.g. when the lobby is full. */
+  spectate?: boolean;
 }
 
 export interface SocketChatMessage {
@@ -87,9 +92,170 @@ export interface RockfallPayload {
   targetTileId: string;
 }
 
+export interface MapPeekPayload {
+  cardInstanceId: string;
+  targetTileId: string;
+}
+
+export interface GoalPeek {
+  tileId: string;
+  cardKey: string;
+}
+
+export interface DiscardPayload {
+  cardInstanceId: string;
+}
+
 export interface ToolEffectPayload {
   targetPlayerId: string;
-  cardKey: 'break' | 'repair';
+  cardKey: string;
+  /** Which tool a two-tool repair card should mend. */
+  tool?: Tool;
+}
+
+export interface RoundEndedPayload {
+  team?: Role;
+  awards: Record<string, number>;
+  placerId?: string;
+  round: number;
+  winners: string[];
+  /** Every seated player's role, revealed once the round is decided. */
+  roles: Record<string, Role>;
+}
+
+export interface NuggetDraftPayload {
+  /** Face-up nugget values still on offer. */
+  cards: number[];
+  /** Who picks each card, starting with the miner who reached the gold. */
+  order: string[];
+  picks: Array<{ playerId: string; value: number }>;
+  pickerId?: string;
+  endsAt?: number;
+}
+
+export interface ChooseNuggetPayload {
+  index: number;
+}
+
+export interface GameEndedPayload {
+  /** Players sharing the highest gold total. */
+  winners: string[];
+  standings: Array<{ id: string; name: string; gold: number }>;
+  rounds: number;
+}
+
+export interface ModerationPayload {
+  targetPlayerId: string;
+}
+
+export interface LockLobbyPayload {
+  locked: boolean;
+}
+
+export interface AddBotPayload {
+  difficulty: BotDifficulty;
+}
+
+export interface KickedPayload {
+  roomCode: string;
+  reason: 'kicked' | 'banned';
+}
+
+export interface JoinRejectedPayload {
+  roomCode: string;
+  reason: string;
+  /** Set when a (correct) passcode would have let the player in. */
+  needsPasscode?: boolean;
+  /** Every seat is taken; the player may still join as a spectator. */
+  full?: boolean;
+  /** The session token was rejected; the player has to log in again. */
+  sessionExpired?: boolean;
+}
+
+/** What /api/register and /api/login hand back; `token` goes with every `ready`. */
+export interface AuthSession {
+  userId: string;
+  name: string;
+  token: string;
+  expiresAt: number;
+}
+
+/** A signed-in player's public profile and lifetime stats, as served by /api/profile. */
+export interface PlayerProfile {
+  userId: string;
+  displayName: string;
+  avatarUrl?: string | null;
+  dwarfColor?: string | null;
+  gamesPlayed: number;
+  minerWins: number;
+  saboteurWins: number;
+  totalGold: number;
+}
+
+export type ProfileUpdate = Partial<Pick<PlayerProfile, 'displayName' | 'avatarUrl' | 'dwarfColor'>>;
+
+export type MatchStatus = 'playing' | 'finished' | 'abandoned';
+
+export interface MatchPlayer {
+  id: string;
+  userId?: string | null;
+  name: string;
+  seat: number;
+  gold: number;
+}
+
+export interface MatchSummary {
+  id: string;
+  roomCode: string;
+  status: MatchStatus;
+  roundsPlayed: number;
+  winners: string[];
+  /** The game's random seed; dealing from it again reproduces the game. Withheld while it is being played. */
+  seed?: number | null;
+  startedAt: number;
+  endedAt?: number | null;
+  players: MatchPlayer[];
+}
+
+export interface MatchRound {
+  round: number;
+  roles: Record<string, Role>;
+  /** The round's opening board with every goal card face up. */
+  board: BoardState;
+  winningTeam?: Role | null;
+  awards: Record<string, number>;
+  startedAt: number;
+}
+
+export type MatchAction =
+  | { type: 'place'; payload: { tileId: string; cardKey: string; rotation: number; connectors: PathConnectors } }
+  | { type: 'rockfall'; payload: { tileId: string } }
+  | { type: 'tool'; payload: { targetPlayerId: string; cardKey: string; tool: Tool | null; brokenTools: Tool[] } }
+  | { type: 'map'; payload: { tileId: string } }
+  | { type: 'discard'; payload: { timedOut?: boolean } }
+  | { type: 'nugget'; payload: { value: number } }
+  | { type: 'chat'; payload: { body: string } };
+
+export type MatchActionRecord = MatchAction & { seq: number; round: number; playerId: string; createdAt: number };
+
+/** A finished (or abandoned) game in full, as served by /api/matches/:id. */
+export interface MatchRecord extends MatchSummary {
+  rounds: MatchRound[];
+  actions: MatchActionRecord[];
+}
+
+/** A lobby as listed on the intro screen; SQLite flags arrive as 0/1. */
+export interface LobbySummary {
+  code: string;
+  name: string;
+  hostId?: string;
+  status?: string;
+  locked?: number | boolean;
+  isPrivate?: number | boolean;
+  hasPasscode?: number | boolean;
+  createdAt?: number;
+  capacity?: number;
+  currentCount?: number;
 }
 
 export interface ServerToClientEvents {
@@ -100,8 +266,20 @@ export interface ServerToClientEvents {
   playerMoved: (player: PlayerStateSnapshot) => void;
   boardUpdated: (board: BoardState) => void;
   handUpdated: (hand: CardInstance[]) => void;
+  roleAssigned: (role: Role) => void;
+  goalPeeked: (peek: GoalPeek) => void;
   metrics: (payload: VisualizationMetrics) => void;
-  roundEnded: (payload: { team?: Role; awards: Record<string, number>; placerId?: string; round: number; winners: string[] }) => void;
+  nuggetDraft: (payload: NuggetDraftPayload) => void;
+  roundEnded: (payload: RoundEndedPayload) => void;
+  gameEnded: (payload: GameEndedPayload) => void;
+  hostChanged: (hostId: string) => void;
+  lobbyLocked: (locked: boolean) => void;
+  kicked: (payload: KickedPayload) => void;
+  joinRejected: (payload: JoinRejectedPayload) => void;
+  lobbyList: (lobbies: LobbySummary[]) => void;
+  lobbyCreated: (lobby: LobbySummary) => void;
+  lobbyUpdated: (lobby: LobbySummary) => void;
+  lobbyRemoved: (code: string) => void;
   newChat: (message: SocketChatMessage) => void;
   rtcOffer: (payload: { from: string; description: RTCSessionDescriptionInit }) => void;
   rtcAnswer: (payload: { from: string; description: RTCSessionDescriptionInit }) => void;
@@ -109,15 +287,26 @@ export interface ServerToClientEvents {
 }
 
 export interface ClientToServerEvents {
-  ready: (name: string, roomCode?: string, userId?: string | null) => void;
+  ready: (payload: ReadyPayload) => void;
   playerMove: (position: Vec3, rotation: QuaternionLike) => void;
   placeCard: (payload: CardPlacementPayload) => void;
   rockfall: (payload: RockfallPayload) => void;
   toolEffect: (payload: ToolEffectPayload) => void;
+  discardCard: (payload: DiscardPayload) => void;
+  peekGoal: (payload: MapPeekPayload) => void;
+  chooseNugget: (payload: ChooseNuggetPayload) => void;
   requestHand: () => void;
   sendChat: (text: string) => void;
   rtcOffer: (payload: { to: string; description: RTCSessionDescriptionInit }) => void;
   rtcAnswer: (payload: { to: string; description: RTCSessionDescriptionInit }) => void;
   rtcCandidate: (payload: { to: string; candidate: RTCIceCandidateInit }) => void;
+  startGame: () => void;
   restart: () => void;
+  kickPlayer: (payload: ModerationPayload) => void;
+  banPlayer: (payload: ModerationPayload) => void;
+  lockLobby: (payload: LockLobbyPayload) => void;
+  addBot: (payload: AddBotPayload) => void;
+  removeBot: (payload: ModerationPayload) => void;
+  watchLobbies: () => void;
+  unwatchLobbies: () => void;
 }
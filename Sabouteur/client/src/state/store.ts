@@ -13,9 +13,21 @@ export interface LocalPlayerPose {
   rotation: QuaternionLike;
 }
 
+export type ConnectionState = 'connected' | 'reconnecting' | 'offline';
+
+/** Socket health for the HUD badge; `retryAt` is when the next reconnect attempt fires. */
+export interface ConnectionStatus {
+  state: ConnectionState;
+  attempt: number;
+  retryAt?: number;
+}
+
 interface GameStore {
-  connected: boolean;
+  connection: ConnectionStatus;
   playerId?: string;
+  hostId?: string;
+  locked: boolean;
+  spectator: boolean;
   name: string;
   role?: Role;
   board?: BoardState;
@@ -23,41 +35,58 @@ interface GameStore {
   metrics?: VisualizationMetrics;
   hand: CardInstance[];
   selectedCard?: CardInstance;
+  /** Goal identities this player has privately seen with a map card, keyed by tile id. */
+  peekedGoals: Record<string, string>;
   pose: LocalPlayerPose;
-  setConnection: (connected: boolean) => void;
+  setConnection: (connection: ConnectionStatus) => void;
   hydrate: (payload: {
     playerId: string;
-    role: Role;
+    hostId?: string;
+    locked?: boolean;
+    spectator?: boolean;
+    role?: Role;
     board: BoardState;
     players: PlayerStateSnapshot[];
     hand: CardInstance[];
     metrics: VisualizationMetrics;
+    peekedGoals?: Record<string, string>;
   }) => void;
   updatePlayers: (players: PlayerStateSnapshot[]) => void;
   upsertPlayer: (player: PlayerStateSnapshot) => void;
   removePlayer: (id: string) => void;
   setBoard: (board: BoardState) => void;
   setHand: (hand: CardInstance[]) => void;
+  setRole: (role: Role) => void;
+  setHost: (hostId: string) => void;
+  setLocked: (locked: boolean) => void;
   selectCard: (card?: CardInstance) => void;
+  rememberGoal: (tileId: string, cardKey: string) => void;
   updateMetrics: (metrics: VisualizationMetrics) => void;
   setPose: (position: Vec3, rotation: QuaternionLike) => void;
 }
 
 export const useGameStore = createStore<GameStore>((set, _get) => ({
-  connected: false,
+  connection: { state: 'offline', attempt: 0 },
+  locked: false,
+  spectator: false,
   name: '',
   players: {},
   hand: [],
+  peekedGoals: {},
   pose: { position: { x: 0, y: 1.6, z: 0 }, rotation: { x: 0, y: 0, z: 0, w: 1 } },
-  setConnection: (connected) => set({ connected }),
-  hydrate: ({ playerId, role, board, players, hand, metrics }) =>
+  setConnection: (connection) => set({ connection }),
+  hydrate: ({ playerId, hostId, locked = false, spectator = false, role, board, players, hand, metrics, peekedGoals = {} }) =>
     set({
       playerId,
+      hostId,
+      locked,
+      spectator,
       role,
       board,
       players: Object.fromEntries(players.map((p) => [p.id, p])),
       hand,
       metrics,
+      peekedGoals,
     }),
   updatePlayers: (players) => {
     set((state) => {
@@ -80,8 +109,17 @@ export const useGameStore = createStore<GameStore>((set, _get) => ({
     }),
   setBoard: (board) => set({ board }),
   setHand: (hand) => set({ hand, selectedCard: undefined }),
+  setRole: (role) => set({ role }),
+  setHost: (hostId) => set({ hostId }),
+  setLocked: (locked) => set({ locked }),
   selectCard: (card) => set({ selectedCard: card }),
-  updateMetrics: (metrics) => set({ metrics }),
+  rememberGoal: (tileId, cardKey) =>
+    set((state) => ({
+      peekedGoals: { ...state.peekedGoals, [tileId]: cardKey },
+    })),
+  // A new round deals fresh goals, so earlier map peeks no longer apply
+  updateMetrics: (metrics) =>
+    set((state) => (state.metrics && state.metrics.round !== metrics.round ? { metrics, peekedGoals: {} } : { metrics })),
   setPose: (position, rotation) =>
     set(() => ({
       pose: { position, rotation },
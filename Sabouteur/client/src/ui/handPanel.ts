@@ -1,5 +1,5 @@
 import type { CardInstance } from '../game/cards';
-import { CARD_LIBRARY } from '../game/cards';
+import { CARD_LIBRARY, TOOL_ICONS } from '../game/cards';
 
 const cardIconCache = new Map<string, string>();
 
@@ -27,13 +27,18 @@ const makePathIcon = (key: string) => {
 
 const makeUtilityIcon = (key: string) => {
   const size = 120;
+  const def = CARD_LIBRARY[key];
   let glyph = '⚙️';
-  if (key === 'rockfall') glyph = '💥';
-  if (key === 'break') glyph = '⛔';
-  if (key === 'repair') glyph = '🛠️';
+  if (def?.category === 'rockfall') glyph = '💥';
+  if (def?.category === 'break') glyph = '⛔';
+  if (def?.category === 'repair') glyph = '🛠️';
+  if (def?.category === 'map') glyph = '🗺️';
+  // Tool cards name the tools they affect underneath the main glyph
+  const tools = (def?.tools ?? []).map((tool) => TOOL_ICONS[tool]).join(' ');
   const svg = `${svgHeader(size)}
     <rect x="4" y="4" width="${size - 8}" height="${size - 8}" rx="16" fill="#0b141d" stroke="#283442" stroke-width="4" />
-    <text x="50%" y="55%" text-anchor="middle" font-size="54" fill="#f2f5fa">${glyph}</text>
+    <text x="50%" y="${tools ? '45%' : '55%'}" text-anchor="middle" font-size="${tools ? 44 : 54}" fill="#f2f5fa">${glyph}</text>
+    ${tools ? `<text x="50%" y="85%" text-anchor="middle" font-size="26" fill="#f2f5fa">${tools}</text>` : ''}
   </svg>`;
   return `data:image/svg+xml;utf8,${encodeURIComponent(svg)}`;
 };
@@ -54,11 +59,14 @@ export interface HandPanelController {
   getSelection: () => { card?: CardInstance; rotation: number };
   rotate: (direction: 1 | -1) => void;
   clearSelection: () => void;
+  /** Locks every card action, e.g. while the connection to the server is down. */
+  setEnabled: (enabled: boolean) => void;
 }
 
 type HandPanelOptions = {
   onSelect?: (card: CardInstance | undefined, rotation: number) => void;
   onRotate?: (rotation: number) => void;
+  onDiscard?: (card: CardInstance) => void;
 };
 
 export const createHandPanel = (options?: HandPanelOptions): HandPanelController => {
@@ -90,9 +98,21 @@ export const createHandPanel = (options?: HandPanelOptions): HandPanelController
   rotationControls.appendChild(rotateRight);
   container.appendChild(rotationControls);
 
+  const actions = document.createElement('div');
+  actions.className = 'hand-actions';
+  const discardButton = document.createElement('button');
+  discardButton.type = 'button';
+  discardButton.className = 'btn secondary';
+  discardButton.textContent = 'Discard & pass';
+  discardButton.title = 'Throw the selected card face down and end your turn';
+  discardButton.disabled = true;
+  actions.appendChild(discardButton);
+  container.appendChild(actions);
+
   let hand: CardInstance[] = [];
   let selectedId: string | undefined;
   let rotation = 0;
+  let enabled = true;
 
   const updateRotationLabel = () => {
     rotationInfo.textContent = `Rotation: ${rotation * 90}°`;
@@ -135,6 +155,9 @@ export const createHandPanel = (options?: HandPanelOptions): HandPanelController
   };
 
   const render = () => {
+    discardButton.disabled = !enabled || !hand.some((card) => card.instanceId === selectedId);
+    rotateLeft.disabled = !enabled;
+    rotateRight.disabled = !enabled;
     list.innerHTML = '';
     hand.forEach((card, idx) => {
       const def = CARD_LIBRARY[card.cardKey];
@@ -148,6 +171,7 @@ export const createHandPanel = (options?: HandPanelOptions): HandPanelController
           <small>${def.description}</small>
         </div>
       `;
+      cardButton.disabled = !enabled;
       cardButton.addEventListener('click', () => selectCard(card));
       list.appendChild(cardButton);
     });
@@ -159,6 +183,11 @@ export const createHandPanel = (options?: HandPanelOptions): HandPanelController
     }
   };
 
+  discardButton.addEventListener('click', () => {
+    const card = hand.find((c) => c.instanceId === selectedId);
+    if (card) options?.onDiscard?.(card);
+  });
+
   rotateLeft.addEventListener('click', () => {
     rotation = rotation === 0 ? 2 : 0; // toggle 0 <-> 180
     notifyRotate();
@@ -172,10 +201,11 @@ export const createHandPanel = (options?: HandPanelOptions): HandPanelController
 
   window.addEventListener('keydown', (event) => {
     if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
-    if (!hand.length) return;
-    if (event.key >= '1' && event.key <= '5') {
-      const idx = parseInt(event.key, 10) - 1;
-      selectByIndex(idx);
+    if (!hand.length || !enabled) return;
+    // Number keys pick a card by its slot, however many the table deals
+    const slot = Number(event.key);
+    if (Number.isInteger(slot) && slot >= 1 && slot <= hand.length) {
+      selectByIndex(slot - 1);
     }
     if (event.key.toLowerCase() === 'r') {
       rotation = rotation === 0 ? 2 : 0;
@@ -208,5 +238,15 @@ export const createHandPanel = (options?: HandPanelOptions): HandPanelController
       render();
       options?.onSelect?.(undefined, rotation);
     },
+    setEnabled: (next) => {
+      if (enabled === next) return;
+      enabled = next;
+      container.classList.toggle('offline', !enabled);
+      if (!enabled && selectedId) {
+        selectedId = undefined;
+        options?.onSelect?.(undefined, rotation);
+      }
+      render();
+    },
   };
 };
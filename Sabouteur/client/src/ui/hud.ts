@@ -1,15 +1,53 @@
 import type { Role } from '../game/cards';
+import { TOOL_ICONS } from '../game/cards';
 import type { PlayerStateSnapshot, SocketChatMessage, VisualizationMetrics } from '../net/types';
+import type { ConnectionStatus } from '../state/store';
 import { useGameStore } from '../state/store';
+import { ROUNDS_PER_GAME } from '../../../shared/rules/scoring';
+import { escapeHtml } from './html';
+
+const GOAL_LABELS = ['top', 'middle', 'bottom'];
+
+const brokenToolIcons = (player: PlayerStateSnapshot) =>
+  player.brokenTools.length
+    ? ` <span class="broken-tools" title="Broken: ${player.brokenTools.join(', ')}">${player.brokenTools
+        .map((tool) => TOOL_ICONS[tool])
+        .join('')}</span>`
+    : '';
+
+// The profile picture if there is one, else a dot in the player's dwarf colour
+const playerBadge = (player: PlayerStateSnapshot) => {
+  if (player.avatarUrl) return `<img class="player-avatar" src="${encodeURI(player.avatarUrl)}" alt="" />`;
+  if (player.color) return `<span class="player-swatch" style="background:${player.color}"></span>`;
+  return '';
+};
+
+export type ModerationAction = 'kick' | 'ban' | 'lock' | 'unlock';
+
+const HOST_CROWN = '<span class="host-crown" title="Host">👑</span> ';
+
+const botBadge = (player: PlayerStateSnapshot) => {
+  if (player.bot) return `<span class="bot-badge" title="Computer player (${player.bot})">🤖</span> `;
+  if (player.autopilot) {
+    return '<span class="bot-badge autopilot" title="A bot is playing until this dwarf is back">🤖 autopilot</span> ';
+  }
+  return '';
+};
 
 export interface HudController {
   element: HTMLElement;
   setRole: (role?: Role) => void;
-  updatePlayers: (players: Record<string, PlayerStateSnapshot>, selfId?: string) => void;
+  setSpectating: () => void;
+  /** Hides the role badge while a shared screen changes hands. */
+  setRoleHidden: (hidden: boolean) => void;
+  setConnection: (status: ConnectionStatus) => void;
+  updatePlayers: (players: Record<string, PlayerStateSnapshot>, selfId?: string, hostId?: string) => void;
   setMetrics: (metrics?: VisualizationMetrics) => void;
   pushLog: (entry: string) => void;
   getTargetPlayer: () => string | undefined;
   onTargetChange: (handler: (playerId?: string) => void) => void;
+  setLocked: (locked: boolean) => void;
+  onModerate: (handler: (action: ModerationAction, playerId: string) => void) => void;
   attachChatHandler: (send: (text: string) => void) => void;
   appendChat: (message: SocketChatMessage) => void;
 }
@@ -18,6 +56,10 @@ export const createHUD = (): HudController => {
   const container = document.createElement('section');
   container.className = 'hud-overlay';
 
+  const connectionBadge = document.createElement('div');
+  connectionBadge.className = 'connection-badge';
+  container.appendChild(connectionBadge);
+
   const roleBadge = document.createElement('div');
   roleBadge.className = 'role-badge';
   roleBadge.textContent = 'Role: Unknown';
@@ -27,6 +69,11 @@ export const createHUD = (): HudController => {
   playerList.className = 'player-list';
   container.appendChild(playerList);
 
+  // Host-only right-click menu on player rows
+  const playerMenu = document.createElement('ul');
+  playerMenu.className = 'player-menu hidden';
+  container.appendChild(playerMenu);
+
   const metricsBox = document.createElement('div');
   metricsBox.className = 'metrics-box';
   container.appendChild(metricsBox);
@@ -50,13 +97,58 @@ export const createHUD = (): HudController => {
     <input type="text" placeholder="Send a quick ping" />
     <button type="submit">Send</button>
   `;
+  // Map readings are private, so players announce them (truthfully or not) through chat
+  const claimForm = document.createElement('form');
+  claimForm.className = 'claim-form';
+  claimForm.title = 'Share — or bluff about — what your map showed';
+  claimForm.innerHTML = `
+    <select name="goal">
+      ${GOAL_LABELS.map((label) => `<option value="${label}">${label} goal</option>`).join('')}
+    </select>
+    <select name="claim">
+      <option value="gold">is gold</option>
+      <option value="coal">is coal</option>
+    </select>
+    <button type="submit">Claim</button>
+  `;
   chatBox.appendChild(chatList);
   chatBox.appendChild(chatForm);
+  chatBox.appendChild(claimForm);
   container.appendChild(chatBox);
 
   let targetChangeHandler: (playerId?: string) => void = () => undefined;
   let selectedTargetId: string | undefined;
   let chatSender: (text: string) => void = () => undefined;
+  let moderationHandler: (action: ModerationAction, playerId: string) => void = () => undefined;
+  let lobbyLocked = false;
+
+  const hidePlayerMenu = () => playerMenu.classList.add('hidden');
+  document.addEventListener('click', hidePlayerMenu);
+
+  const showPlayerMenu = (player: PlayerStateSnapshot, isSelf: boolean, event: MouseEvent) => {
+    const actions: Array<[ModerationAction, string]> = isSelf
+      ? []
+      : [
+          ['kick', `Kick ${player.name}`],
+          ['ban', `Ban ${player.name}`],
+        ];
+    actions.push(lobbyLocked ? ['unlock', 'Unlock lobby'] : ['lock', 'Lock lobby']);
+    playerMenu.innerHTML = '';
+    actions.forEach(([action, label]) => {
+      const item = document.createElement('li');
+      item.dataset.action = action;
+      item.textContent = label;
+      item.addEventListener('click', () => {
+        hidePlayerMenu();
+        moderationHandler(action, player.id);
+      });
+      playerMenu.appendChild(item);
+    });
+    const bounds = container.getBoundingClientRect();
+    playerMenu.style.left = `${event.clientX - bounds.left}px`;
+    playerMenu.style.top = `${event.clientY - bounds.top + container.scrollTop}px`;
+    playerMenu.classList.remove('hidden');
+  };
 
   chatForm.addEventListener('submit', (event) => {
     event.preventDefault();
@@ -66,12 +158,52 @@ export const createHUD = (): HudController => {
     input.value = '';
   });
 
+  claimForm.addEventListener('submit', (event) => {
+    event.preventDefault();
+    const goal = claimForm.querySelector<HTMLSelectElement>('select[name="goal"]')?.value;
+    const claim = claimForm.querySelector<HTMLSelectElement>('select[name="claim"]')?.value;
+    if (!goal || !claim) return;
+    chatSender(`🗺️ My map says the ${goal} goal is ${claim}.`);
+  });
+
   const setRole = (role?: Role) => {
     roleBadge.dataset.role = role ?? 'unknown';
     roleBadge.textContent = role ? `Role: ${role === 'miner' ? 'Miner' : 'Saboteur'}` : 'Role: Unknown';
   };
 
-  const updatePlayers = (players: Record<string, PlayerStateSnapshot>, selfId?: string) => {
+  let connectionCountdown: number | undefined;
+
+  const setConnection = (status: ConnectionStatus) => {
+    connectionBadge.dataset.state = status.state;
+    window.clearInterval(connectionCountdown);
+    const render = () => {
+      if (status.state === 'connected') {
+        connectionBadge.textContent = '● Connected';
+      } else if (status.state === 'reconnecting') {
+        connectionBadge.textContent = `● Reconnecting${status.attempt ? ` (attempt ${status.attempt})` : ''}...`;
+      } else if (status.retryAt) {
+        const seconds = Math.max(0, Math.ceil((status.retryAt - Date.now()) / 1000));
+        connectionBadge.textContent = `● Offline — retrying in ${seconds}s`;
+      } else {
+        connectionBadge.textContent = '● Offline';
+      }
+    };
+    render();
+    if (status.state === 'offline' && status.retryAt) {
+      connectionCountdown = window.setInterval(render, 500);
+    }
+  };
+
+  const setSpectating = () => {
+    roleBadge.dataset.role = 'spectator';
+    roleBadge.textContent = '👀 Spectating';
+  };
+
+  const setRoleHidden = (hidden: boolean) => {
+    roleBadge.style.display = hidden ? 'none' : '';
+  };
+
+  const updatePlayers = (players: Record<string, PlayerStateSnapshot>, selfId?: string, hostId?: string) => {
     playerList.innerHTML = '';
     const entries = Object.values(players);
     if (entries.length === 0) {
@@ -83,7 +215,7 @@ export const createHUD = (): HudController => {
       li.dataset.id = player.id;
       li.className = player.id === selfId ? 'self' : '';
       li.innerHTML = `
-        <span>${player.name}</span>
+        <span>${player.id === hostId ? HOST_CROWN : ''}${botBadge(player)}${playerBadge(player)}${escapeHtml(player.name)}${brokenToolIcons(player)}</span>
         <small>Score: ${player.score ?? 0}</small>
         <div class="suspicion-bar">
           <div style="width:${Math.min(100, player.suspicion * 100)}%"></div>
@@ -92,8 +224,14 @@ export const createHUD = (): HudController => {
       li.addEventListener('click', () => {
         selectedTargetId = player.id === selectedTargetId ? undefined : player.id;
         targetChangeHandler(selectedTargetId);
-        updatePlayers(players, selfId);
+        updatePlayers(players, selfId, hostId);
       });
+      if (selfId && selfId === hostId) {
+        li.addEventListener('contextmenu', (event) => {
+          event.preventDefault();
+          showPlayerMenu(player, player.id === selfId, event);
+        });
+      }
       if (player.id === selectedTargetId) {
         li.classList.add('selected');
       }
@@ -112,7 +250,7 @@ export const createHUD = (): HudController => {
       <p>Tunnel progress: ${(metrics.progress * 100).toFixed(1)}%</p>
       <p>Collapsed tiles: ${metrics.collapsedTiles}</p>
       <p>Turns taken: ${metrics.turnsTaken}</p>
-      <p>Round: ${metrics.round}</p>
+      <p>Round: ${metrics.round} / ${ROUNDS_PER_GAME}</p>
       <p>Your gold: ${metrics.goldByPlayer?.[useGameStore.getState().playerId ?? ''] ?? 0}</p>
     `;
   };
@@ -137,6 +275,9 @@ export const createHUD = (): HudController => {
   return {
     element: container,
     setRole,
+    setSpectating,
+    setRoleHidden,
+    setConnection,
     updatePlayers,
     setMetrics,
     pushLog,
@@ -144,6 +285,12 @@ export const createHUD = (): HudController => {
     onTargetChange: (handler) => {
       targetChangeHandler = handler;
     },
+    setLocked: (locked) => {
+      lobbyLocked = locked;
+    },
+    onModerate: (handler) => {
+      moderationHandler = handler;
+    },
     attachChatHandler: (send) => {
       chatSender = send;
     },
@@ -0,0 +1,70 @@
+import type { NuggetDraftPayload, PlayerStateSnapshot } from '../net/types';
+import { escapeHtml } from './html';
+
+export interface NuggetPickerController {
+  element: HTMLElement;
+  show: (draft: NuggetDraftPayload, players: Record<string, PlayerStateSnapshot>, selfId?: string) => void;
+  hide: () => void;
+}
+
+type NuggetPickerOptions = {
+  onChoose: (index: number) => void;
+};
+
+const nuggetGlyph = (value: number) => '🪙'.repeat(value);
+
+export const createNuggetPicker = ({ onChoose }: NuggetPickerOptions): NuggetPickerController => {
+  const container = document.createElement('div');
+  container.className = 'confirm-modal hidden nugget-picker';
+  container.innerHTML = `
+    <div class="confirm-card">
+      <h3>Dividing the gold</h3>
+      <p class="nugget-status"></p>
+      <div class="nugget-cards"></div>
+      <ol class="nugget-picks"></ol>
+    </div>
+  `;
+  const status = container.querySelector<HTMLElement>('.nugget-status')!;
+  const cards = container.querySelector<HTMLElement>('.nugget-cards')!;
+  const picks = container.querySelector<HTMLElement>('.nugget-picks')!;
+  let countdown: number | undefined;
+
+  const show = (draft: NuggetDraftPayload, players: Record<string, PlayerStateSnapshot>, selfId?: string) => {
+    const nameOf = (id: string) => players[id]?.name ?? id;
+    const myPick = !!selfId && draft.pickerId === selfId;
+    const renderStatus = () => {
+      const seconds = draft.endsAt ? Math.max(0, Math.ceil((draft.endsAt - Date.now()) / 1000)) : 0;
+      const who = myPick ? 'Your pick' : `${nameOf(draft.pickerId ?? '')} is choosing`;
+      // Local games have no pick clock
+      status.textContent = draft.endsAt ? `${who} (${seconds}s)` : who;
+    };
+    renderStatus();
+    window.clearInterval(countdown);
+    countdown = window.setInterval(renderStatus, 500);
+
+    cards.innerHTML = '';
+    draft.cards.forEach((value, index) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'nugget-card';
+      button.innerHTML = `<span>${nuggetGlyph(value)}</span><strong>${value}</strong>`;
+      button.disabled = !myPick;
+      button.addEventListener('click', () => onChoose(index));
+      cards.appendChild(button);
+    });
+
+    picks.innerHTML = draft.picks.map((pick) => `<li>${escapeHtml(nameOf(pick.playerId))} took ${pick.value} gold</li>`).join('');
+    container.classList.remove('hidden');
+  };
+
+  const hide = () => {
+    window.clearInterval(countdown);
+    container.classList.add('hidden');
+  };
+
+  return {
+    element: container,
+    show,
+    hide,
+  };
+};
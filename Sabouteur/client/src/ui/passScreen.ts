@@ -0,0 +1,39 @@
+export interface PassScreenController {
+  element: HTMLElement;
+  show: (name: string) => void;
+  hide: () => void;
+}
+
+type PassScreenOptions = {
+  onConfirm: () => void;
+};
+
+// Covers the table between pass-and-play turns so nobody glimpses the next dwarf's secrets
+export const createPassScreen = ({ onConfirm }: PassScreenOptions): PassScreenController => {
+  const container = document.createElement('div');
+  container.className = 'confirm-modal hidden pass-screen';
+  container.innerHTML = `
+    <div class="confirm-card">
+      <h3>Pass the device</h3>
+      <p class="pass-status"></p>
+      <div class="button-row">
+        <button class="btn primary" type="button" data-action="confirm"></button>
+      </div>
+    </div>
+  `;
+  const status = container.querySelector<HTMLElement>('.pass-status')!;
+  const confirmButton = container.querySelector<HTMLButtonElement>('[data-action="confirm"]')!;
+  confirmButton.addEventListener('click', () => onConfirm());
+
+  const show = (name: string) => {
+    status.textContent = `Hand the device to ${name}. Everyone else, look away while they check their role and hand.`;
+    confirmButton.textContent = `I'm ${name}`;
+    container.classList.remove('hidden');
+  };
+
+  const hide = () => {
+    container.classList.add('hidden');
+  };
+
+  return { element: container, show, hide };
+};
@@ -0,0 +1,97 @@
+import type { PlayerProfile, ProfileUpdate } from '../net/types';
+
+export interface ProfilePanelController {
+  element: HTMLElement;
+  show: (profile: PlayerProfile) => void;
+  showError: (message: string) => void;
+  hide: () => void;
+}
+
+type ProfilePanelOptions = {
+  onSave: (update: ProfileUpdate) => void;
+};
+
+const DEFAULT_DWARF_COLOR = '#f2c078';
+
+export const createProfilePanel = ({ onSave }: ProfilePanelOptions): ProfilePanelController => {
+  const container = document.createElement('div');
+  container.className = 'confirm-modal hidden profile-panel';
+  container.innerHTML = `
+    <div class="confirm-card">
+      <div class="profile-header">
+        <img class="profile-avatar" alt="" />
+        <h3>Your profile</h3>
+      </div>
+      <div class="intro-actions">
+        <label class="field">
+          <span>Display name</span>
+          <input type="text" id="profile-name" maxlength="24" />
+        </label>
+        <label class="field">
+          <span>Avatar URL</span>
+          <input type="text" id="profile-avatar" placeholder="https://..." />
+        </label>
+        <label class="field field-check">
+          <input type="color" id="profile-color" />
+          <span>Dwarf colour</span>
+        </label>
+        <dl class="profile-stats"></dl>
+        <p class="muted profile-error"></p>
+        <div class="button-row">
+          <button class="btn primary" id="profile-save">Save</button>
+          <button class="btn ghost" id="profile-close">Close</button>
+        </div>
+      </div>
+    </div>
+  `;
+  const avatar = container.querySelector<HTMLImageElement>('.profile-avatar')!;
+  const nameInput = container.querySelector<HTMLInputElement>('#profile-name')!;
+  const avatarInput = container.querySelector<HTMLInputElement>('#profile-avatar')!;
+  const colorInput = container.querySelector<HTMLInputElement>('#profile-color')!;
+  const stats = container.querySelector<HTMLElement>('.profile-stats')!;
+  const error = container.querySelector<HTMLElement>('.profile-error')!;
+
+  const renderAvatar = (url?: string | null) => {
+    avatar.style.display = url ? '' : 'none';
+    if (url) avatar.src = url;
+  };
+
+  avatarInput.addEventListener('change', () => renderAvatar(avatarInput.value.trim()));
+
+  container.querySelector<HTMLButtonElement>('#profile-save')?.addEventListener('click', () => {
+    error.textContent = '';
+    onSave({
+      displayName: nameInput.value.trim(),
+      avatarUrl: avatarInput.value.trim(),
+      dwarfColor: colorInput.value,
+    });
+  });
+
+  const show = (profile: PlayerProfile) => {
+    nameInput.value = profile.displayName;
+    avatarInput.value = profile.avatarUrl ?? '';
+    colorInput.value = profile.dwarfColor ?? DEFAULT_DWARF_COLOR;
+    renderAvatar(profile.avatarUrl);
+    stats.innerHTML = `
+      <dt>Games played</dt><dd>${profile.gamesPlayed}</dd>
+      <dt>Rounds won as miner</dt><dd>${profile.minerWins}</dd>
+      <dt>Rounds won as saboteur</dt><dd>${profile.saboteurWins}</dd>
+      <dt>Total gold</dt><dd>${profile.totalGold}</dd>
+    `;
+    error.textContent = '';
+    container.classList.remove('hidden');
+  };
+
+  const hide = () => container.classList.add('hidden');
+
+  container.querySelector<HTMLButtonElement>('#profile-close')?.addEventListener('click', hide);
+
+  return {
+    element: container,
+    show,
+    showError: (message: string) => {
+      error.textContent = message;
+    },
+    hide,
+  };
+};
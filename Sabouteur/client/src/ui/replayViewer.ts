@@ -0,0 +1,132 @@
+import type { ReplayFrame } from '../game/replay';
+import type { MatchRecord } from '../net/types';
+import { escapeHtml } from './html';
+
+export interface ReplayViewerController {
+  element: HTMLElement;
+  load: (match: MatchRecord, frames: ReplayFrame[]) => void;
+  close: () => void;
+}
+
+type ReplayViewerOptions = {
+  onFrame: (frame: ReplayFrame) => void;
+  onExit: () => void;
+};
+
+// Milliseconds per frame at 1x
+const BASE_STEP_MS = 1200;
+const SPEEDS = [0.5, 1, 2, 4, 8];
+const ROLE_ICONS = { miner: '⛏️', saboteur: '💣' } as const;
+
+export const createReplayViewer = ({ onFrame, onExit }: ReplayViewerOptions): ReplayViewerController => {
+  const container = document.createElement('section');
+  container.className = 'replay-viewer hidden';
+  container.innerHTML = `
+    <div class="replay-header">
+      <h3>Replay</h3>
+      <span class="replay-round"></span>
+      <button class="btn ghost" type="button" data-action="exit">Exit replay</button>
+    </div>
+    <ul class="replay-roles"></ul>
+    <p class="replay-caption"></p>
+    <input class="replay-timeline" type="range" min="0" value="0" />
+    <div class="button-row replay-controls">
+      <button class="btn secondary" type="button" data-action="back" title="Step back">⏮</button>
+      <button class="btn primary" type="button" data-action="play" title="Play / pause">▶</button>
+      <button class="btn secondary" type="button" data-action="forward" title="Step forward">⏭</button>
+      <select class="replay-speed">
+        ${SPEEDS.map((speed) => `<option value="${speed}"${speed === 1 ? ' selected' : ''}>${speed}x</option>`).join('')}
+      </select>
+      <span class="replay-counter"></span>
+    </div>
+  `;
+  const title = container.querySelector<HTMLElement>('.replay-header h3')!;
+  const roundLabel = container.querySelector<HTMLElement>('.replay-round')!;
+  const roles = container.querySelector<HTMLElement>('.replay-roles')!;
+  const caption = container.querySelector<HTMLElement>('.replay-caption')!;
+  const timeline = container.querySelector<HTMLInputElement>('.replay-timeline')!;
+  const playButton = container.querySelector<HTMLButtonElement>('[data-action="play"]')!;
+  const speedSelect = container.querySelector<HTMLSelectElement>('.replay-speed')!;
+  const counter = container.querySelector<HTMLElement>('.replay-counter')!;
+
+  let frames: ReplayFrame[] = [];
+  let index = 0;
+  let timer: number | undefined;
+
+  const renderRoles = (frame: ReplayFrame) => {
+    roles.innerHTML = Object.values(frame.players)
+      .map((player) => {
+        const role = player.role === 'unknown' ? undefined : player.role;
+        const gold = frame.metrics.goldByPlayer[player.id] ?? 0;
+        return `<li data-role="${role ?? ''}" class="${player.id === frame.actorId ? 'active' : ''}">
+          ${role ? ROLE_ICONS[role] : ''} ${escapeHtml(player.name)} <small>${gold} gold</small>
+        </li>`;
+      })
+      .join('');
+  };
+
+  const show = (next: number) => {
+    if (!frames.length) return;
+    index = Math.max(0, Math.min(frames.length - 1, next));
+    const frame = frames[index];
+    timeline.value = `${index}`;
+    counter.textContent = `${index + 1} / ${frames.length}`;
+    roundLabel.textContent = `Round ${frame.round}`;
+    caption.textContent = frame.caption;
+    renderRoles(frame);
+    onFrame(frame);
+  };
+
+  const pause = () => {
+    window.clearInterval(timer);
+    timer = undefined;
+    playButton.textContent = '▶';
+  };
+
+  const play = () => {
+    // Playing from the last frame starts over
+    if (index >= frames.length - 1) show(0);
+    window.clearInterval(timer);
+    timer = window.setInterval(() => {
+      if (index >= frames.length - 1) {
+        pause();
+        return;
+      }
+      show(index + 1);
+    }, BASE_STEP_MS / Number(speedSelect.value));
+    playButton.textContent = '⏸';
+  };
+
+  playButton.addEventListener('click', () => (timer ? pause() : play()));
+  container.querySelector('[data-action="back"]')?.addEventListener('click', () => {
+    pause();
+    show(index - 1);
+  });
+  container.querySelector('[data-action="forward"]')?.addEventListener('click', () => {
+    pause();
+    show(index + 1);
+  });
+  // Changing speed mid-play restarts the interval at the new rate
+  speedSelect.addEventListener('change', () => {
+    if (timer) play();
+  });
+  timeline.addEventListener('input', () => show(Number(timeline.value)));
+  container.querySelector('[data-action="exit"]')?.addEventListener('click', () => onExit());
+
+  const load = (match: MatchRecord, nextFrames: ReplayFrame[]) => {
+    pause();
+    title.textContent = `Replay: ${match.roomCode}, ${new Date(match.startedAt).toLocaleDateString()}`;
+    frames = nextFrames;
+    timeline.max = `${Math.max(0, frames.length - 1)}`;
+    container.classList.remove('hidden');
+    show(0);
+  };
+
+  const close = () => {
+    pause();
+    frames = [];
+    container.classList.add('hidden');
+  };
+
+  return { element: container, load, close };
+};
@@ -0,0 +1,8 @@
+import { defineConfig } from 'vite';
+
+export default defineConfig({
+  server: {
+    // Allow serving the rules engine in ../shared during development
+    fs: { allow: ['..'] },
+  },
+});
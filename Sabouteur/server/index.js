@@ -4,8 +4,17 @@ import http from 'http';
 import { Server } from 'socket.io';
 import { v4 as uuid } from 'uuid';
 import sqlite3pkg from 'sqlite3';
-import { pbkdf2Sync, randomBytes } from 'crypto';
+import { createHmac, pbkdf2Sync, randomBytes, timingSafeEqual } from 'crypto';
 import path from 'path';
+import {
+  BOT_DIFFICULTIES,
+  BOT_NAMES,
+  GameTable,
+  isSeed,
+  MAX_PLAYERS,
+  MAX_SEED,
+  MIN_PLAYERS,
+} from '../shared/rules/index.ts';
 
 const sqlite3 = sqlite3pkg.verbose();
 const DB_PATH = process.env.DB_PATH || path.join(process.cwd(), 'saboteur.db');
@@ -42,6 +51,37 @@ const verifyPassword = (password, salt, hash) => {
   return derived === hash;
 };
 
+// Session tokens are `<base64url payload>.<HMAC-SHA256 signature>`; without a configured
+// secret they only survive until the server restarts
+const SESSION_SECRET = process.env.SESSION_SECRET || randomBytes(32).toString('hex');
+const SESSION_TTL_MS = Number(process.env.SESSION_TTL_MS) || 7 * 24 * 60 * 60 * 1000;
+if (!process.env.SESSION_SECRET) {
+  console.warn('SESSION_SECRET is not set; sessions will not survive a server restart');
+}
+
+const signSession = (userId, name) => {
+  const expiresAt = Date.now() + SESSION_TTL_MS;
+  const body = Buffer.from(JSON.stringify({ sub: userId, name, exp: expiresAt })).toString('base64url');
+  const signature = createHmac('sha256', SESSION_SECRET).update(body).digest('base64url');
+  return { token: `${body}.${signature}`, expiresAt };
+};
+
+/** Returns the session's claims, or null when the token is forged, malformed or expired. */
+const verifySession = (token) => {
+  if (typeof token !== 'string') return null;
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+  const expected = createHmac('sha256', SESSION_SECRET).update(body).digest();
+  const given = Buffer.from(signature, 'base64url');
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    return claims.exp > Date.now() ? claims : null;
+  } catch {
+    return null;
+  }
+};
+
 await run(
   `CREATE TABLE IF NOT EXISTS users (
     id TEXT PRIMARY KEY,
@@ -59,289 +99,246 @@ await run(
     status TEXT,
     capacity INTEGER,
     current_count INTEGER DEFAULT 0,
+    locked INTEGER DEFAULT 0,
+    private INTEGER DEFAULT 0,
+    passcode_hash TEXT,
+    passcode_salt TEXT,
+    seed INTEGER,
     created_at INTEGER NOT NULL
   )`,
 );
+await run(
+  `CREATE TABLE IF NOT EXISTS lobby_bans (
+    lobby_code TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    banned_at INTEGER NOT NULL,
+    PRIMARY KEY (lobby_code, user_id)
+  )`,
+);
+await run(
+  `CREATE TABLE IF NOT EXISTS profiles (
+    user_id TEXT PRIMARY KEY,
+    display_name TEXT NOT NULL,
+    avatar_url TEXT,
+    dwarf_color TEXT,
+    games_played INTEGER DEFAULT 0,
+    miner_wins INTEGER DEFAULT 0,
+    saboteur_wins INTEGER DEFAULT 0,
+    total_gold INTEGER DEFAULT 0,
+    updated_at INTEGER NOT NULL
+  )`,
+);
+// Match history: one row per game, its seated players, each round's deal and result, and every action in order
+await run(
+  `CREATE TABLE IF NOT EXISTS matches (
+    id TEXT PRIMARY KEY,
+    room_code TEXT NOT NULL,
+    status TEXT NOT NULL,
+    rounds INTEGER DEFAULT 0,
+    winners TEXT,
+    seed INTEGER,
+    started_at INTEGER NOT NULL,
+    ended_at INTEGER
+  )`,
+);
+await run(
+  `CREATE TABLE IF NOT EXISTS match_players (
+    match_id TEXT NOT NULL,
+    player_id TEXT NOT NULL,
+    user_id TEXT,
+    name TEXT NOT NULL,
+    seat INTEGER NOT NULL,
+    gold INTEGER DEFAULT 0,
+    PRIMARY KEY (match_id, player_id)
+  )`,
+);
+await run(
+  `CREATE TABLE IF NOT EXISTS match_rounds (
+    match_id TEXT NOT NULL,
+    round INTEGER NOT NULL,
+    roles TEXT NOT NULL,
+    board TEXT NOT NULL,
+    winning_team TEXT,
+    awards TEXT,
+    started_at INTEGER NOT NULL,
+    PRIMARY KEY (match_id, round)
+  )`,
+);
+await run(
+  `CREATE TABLE IF NOT EXISTS match_actions (
+    match_id TEXT NOT NULL,
+    seq INTEGER NOT NULL,
+    round INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    player_id TEXT,
+    payload TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (match_id, seq)
+  )`,
+);
+await run('CREATE INDEX IF NOT EXISTS match_players_user ON match_players (user_id)');
+// Rooms live in memory, so any game still marked in progress died with the last server process
+await run("UPDATE matches SET status = 'abandoned', ended_at = ? WHERE status = 'playing'", [Date.now()]);
+// Accounts registered before profiles existed start with a blank one
+await run(
+  'INSERT OR IGNORE INTO profiles (user_id, display_name, updated_at) SELECT id, name, created_at FROM users',
+);
 // Best-effort add missing columns if the table already existed
 await run(`ALTER TABLE lobbies ADD COLUMN name TEXT`).catch(() => {});
 await run(`ALTER TABLE lobbies ADD COLUMN capacity INTEGER`).catch(() => {});
 await run(`ALTER TABLE lobbies ADD COLUMN current_count INTEGER`).catch(() => {});
+await run(`ALTER TABLE lobbies ADD COLUMN locked INTEGER DEFAULT 0`).catch(() => {});
+await run(`ALTER TABLE lobbies ADD COLUMN private INTEGER DEFAULT 0`).catch(() => {});
+await run(`ALTER TABLE lobbies ADD COLUMN passcode_hash TEXT`).catch(() => {});
+await run(`ALTER TABLE lobbies ADD COLUMN passcode_salt TEXT`).catch(() => {});
+await run(`ALTER TABLE lobbies ADD COLUMN seed INTEGER`).catch(() => {});
+await run(`ALTER TABLE matches ADD COLUMN seed INTEGER`).catch(() => {});
 
-const PORT = process.env.PORT || 4173;
-
-const CARD_LIBRARY = {
-  straight: {
-    key: 'straight',
-    category: 'path',
-    connectors: { north: false, east: true, south: false, west: true },
-  },
-  straightLong: {
-    key: 'straightLong',
-    category: 'path',
-    connectors: { north: true, east: false, south: true, west: false },
-  },
-  straightBranchNorth: {
-    key: 'straightBranchNorth',
-    category: 'path',
-    connectors: { north: true, east: true, south: false, west: true },
-  },
-  straightBranchSouth: {
-    key: 'straightBranchSouth',
-    category: 'path',
-    connectors: { north: false, east: true, south: true, west: true },
-  },
-  turn: {
-    key: 'turn',
-    category: 'path',
-    connectors: { north: true, east: true, south: false, west: false },
-  },
-  cross: {
-    key: 'cross',
-    category: 'path',
-    connectors: { north: true, east: true, south: true, west: true },
-  },
-  tee: {
-    key: 'tee',
-    category: 'path',
-    connectors: { north: true, east: true, south: true, west: false },
-  },
-  deadendEast: {
-    key: 'deadendEast',
-    category: 'path',
-    connectors: { north: false, east: true, south: false, west: false },
-  },
-  deadendNorth: {
-    key: 'deadendNorth',
-    category: 'path',
-    connectors: { north: true, east: false, south: false, west: false },
-  },
-  rockfall: {
-    key: 'rockfall',
-    category: 'rockfall',
-  },
-  break: {
-    key: 'break',
-    category: 'break',
-  },
-  repair: {
-    key: 'repair',
-    category: 'repair',
-  },
-};
-
-const DECK_TEMPLATE = [
-  { key: 'straight', quantity: 6 },
-  { key: 'straightLong', quantity: 6 },
-  { key: 'straightBranchNorth', quantity: 3 },
-  { key: 'straightBranchSouth', quantity: 3 },
-  { key: 'turn', quantity: 8 },
-  { key: 'tee', quantity: 6 },
-  { key: 'cross', quantity: 4 },
-  { key: 'deadendEast', quantity: 4 },
-  { key: 'deadendNorth', quantity: 4 },
-  { key: 'rockfall', quantity: 5 },
-  { key: 'break', quantity: 4 },
-  { key: 'repair', quantity: 6 },
-];
-
-const BOARD_ROWS = 7;
-const BOARD_COLUMNS = 9;
-const ROOM_ID = 'default-room';
-
-const roleDistribution = (count) => {
-  const saboteurs = count >= 7 ? 3 : count >= 5 ? 2 : count >= 3 ? 1 : 0;
-  const roles = Array(count)
-    .fill('miner')
-    .map((_, idx) => (idx < saboteurs ? 'saboteur' : 'miner'));
-  for (let i = roles.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [roles[i], roles[j]] = [roles[j], roles[i]];
-  }
-  return roles;
-};
+const LOBBY_COLUMNS =
+  'code, host_id as hostId, name, status, capacity, current_count as currentCount, locked, private as isPrivate, passcode_hash IS NOT NULL as hasPasscode, created_at as createdAt';
 
-const generateDeck = () => {
-  const deck = [];
-  DECK_TEMPLATE.forEach(({ key, quantity }) => {
-    for (let i = 0; i < quantity; i += 1) {
-      deck.push({
-        instanceId: uuid(),
-        cardKey: key,
-        rotation: 0,
-      });
-    }
-  });
-  for (let i = deck.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [deck[i], deck[j]] = [deck[j], deck[i]];
-  }
-  return deck;
-};
+const PROFILE_COLUMNS =
+  'user_id as userId, display_name as displayName, avatar_url as avatarUrl, dwarf_color as dwarfColor, games_played as gamesPlayed, miner_wins as minerWins, saboteur_wins as saboteurWins, total_gold as totalGold';
 
-const rotateConnectors = (connectors, rotation) => {
-  if (!connectors) return undefined;
-  const steps = ((rotation % 4) + 4) % 4;
-  let current = { ...connectors };
-  for (let i = 0; i < steps; i += 1) {
-    current = {
-      north: current.west,
-      east: current.north,
-      south: current.east,
-      west: current.south,
-    };
-  }
-  return current;
-};
+const MATCH_COLUMNS =
+  'id, room_code as roomCode, status, rounds as roundsPlayed, winners, seed, started_at as startedAt, ended_at as endedAt';
 
-const tileId = (row, col) => `${row}-${col}`;
-
-const createBoard = () => {
-  const goalRows = [1, 3, 5];
-  const goldIndex = Math.floor(Math.random() * goalRows.length);
-  const tiles = [];
-  for (let row = 0; row < BOARD_ROWS; row += 1) {
-    for (let col = 0; col < BOARD_COLUMNS; col += 1) {
-      const id = tileId(row, col);
-      const tile = {
-        id,
-        row,
-        col,
-        tileType: 'empty',
-        revealed: false,
-      };
-      tiles.push(tile);
-    }
-  }
-  const startTile = tiles.find((tile) => tile.row === Math.floor(BOARD_ROWS / 2) && tile.col === 0);
-  Object.assign(startTile, {
-    tileType: 'start',
-    connectors: { north: true, east: true, south: true, west: false },
-    revealed: true,
-  });
-  goalRows.forEach((row, index) => {
-    const goalTile = tiles.find((tile) => tile.row === row && tile.col === BOARD_COLUMNS - 1);
-    Object.assign(goalTile, {
-      tileType: 'goal',
-      connectors: { north: true, east: false, south: true, west: true },
-      revealed: false,
-      cardKey: index === goldIndex ? 'gold' : 'coal',
-    });
-  });
-  return {
-    rows: BOARD_ROWS,
-    columns: BOARD_COLUMNS,
-    tiles,
-  };
-};
+const PORT = process.env.PORT || 4173;
 
-const neighbors = [
-  { key: 'north', dr: -1, dc: 0, opposite: 'south' },
-  { key: 'south', dr: 1, dc: 0, opposite: 'north' },
-  { key: 'east', dr: 0, dc: 1, opposite: 'west' },
-  { key: 'west', dr: 0, dc: -1, opposite: 'east' },
-];
-
-const findTile = (board, id) => board.tiles.find((tile) => tile.id === id);
-
-const exploreBoard = (board) => {
-  const startTile = board.tiles.find((tile) => tile.tileType === 'start');
-  const visited = new Set();
-  const queue = startTile ? [startTile] : [];
-  let farthestCol = startTile ? startTile.col : 0;
-  while (queue.length) {
-    const tile = queue.shift();
-    if (!tile || !tile.connectors || visited.has(tile.id)) continue;
-    visited.add(tile.id);
-    farthestCol = Math.max(farthestCol, tile.col);
-    neighbors.forEach(({ key, dr, dc, opposite }) => {
-      if (!tile.connectors[key]) return;
-      const neighbor = board.tiles.find((t) => t.row === tile.row + dr && t.col === tile.col + dc);
-      if (!neighbor || visited.has(neighbor.id) || !neighbor.connectors) return;
-      if (neighbor.connectors[opposite]) {
-        queue.push(neighbor);
-      }
-    });
-  }
-  return {
-    farthestCol,
-    visited,
-  };
-};
+const ROOM_ID = 'default-room';
+const NUGGET_PICK_MS = 20000;
+// How long a dropped player's seat, role and hand are held for them to resume
+const RESUME_GRACE_MS = 90000;
+// Computer players wait this long before playing, so humans can follow their moves
+const BOT_TURN_DELAY_MS = 1500;
+// Turns a dwarf may let time out in a row before a bot takes over their seat, and how well it plays for them
+const AUTOPILOT_AFTER_MISSED_TURNS = 2;
+const AUTOPILOT_DIFFICULTY = 'normal';
 
-class GameRoom {
-  constructor(id) {
+class GameRoom extends GameTable {
+  constructor(id, fixedSeed) {
+    // The lobby's seed, if it fixed one, decides how each game in the room is dealt
+    super(fixedSeed);
     this.id = id;
     this.io = null;
-    this.board = createBoard();
-    this.players = new Map();
-    this.deck = generateDeck();
-    this.discard = [];
-    this.roundEnded = false;
-    this.roundNumber = 1;
-    this.metrics = {
-      deckRemaining: this.deck.length,
-      progress: 0,
-      collapsedTiles: 0,
-      suspicionByPlayer: {},
-      turnsTaken: 0,
-      goldByPlayer: {},
-      round: this.roundNumber,
-      efficiencyByPlayer: {},
-      activePlayerId: null,
-      turnEndsAt: null,
-    };
-    this.turnIndex = 0;
+    this.nuggetTimer = null;
     this.turnTimer = null;
-    this.syncBoardTelemetry();
+    this.botTimer = null;
+    this.hostId = null;
+    // A locked room only lets held seats resume; nobody new may sit down
+    this.locked = false;
+    // Seats the lobby was opened with, read from its record when the room opens
+    this.capacity = MAX_PLAYERS;
+    // The match history record for the game in progress, and the number of actions logged to it
+    this.matchId = null;
+    this.matchSeq = 0;
   }
 
-  insertPlayer(socket, name) {
+  insertPlayer(socket, name, { userId = null, clientId = null, profile = null, bot = null } = {}) {
     const playerCount = this.players.size + 1;
-    const roles = roleDistribution(playerCount);
-    const role = roles[playerCount - 1];
+    // Roles and hands are dealt for the whole table when a round starts
     const player = {
-      id: socket.id,
-      socketId: socket.id,
+      id: uuid(),
+      // Signed-in account, if any, and the browser's own id for guests
+      userId,
+      clientId,
+      // Cosmetics from the account's profile, shown to everyone at the table
+      color: profile?.dwarfColor ?? null,
+      avatarUrl: profile?.avatarUrl ?? null,
+      // Difficulty of a computer player, which sits without a socket; null for humans
+      bot,
+      socketId: socket?.id ?? null,
+      connectedAt: Date.now(),
+      resumeToken: randomBytes(24).toString('hex'),
+      graceTimer: null,
+      // A bot plays an away or disconnected dwarf's turns until they act again
+      autopilot: false,
+      missedTurns: 0,
+      peekedGoals: {},
       name: name || `Dwarf-${playerCount}`,
-      role,
+      role: null,
       position: { x: 0, y: 1.6, z: 0 },
       rotation: { x: 0, y: 0, z: 0, w: 1 },
       hand: [],
       connected: true,
-      toolBroken: false,
-      suspicion: role === 'saboteur' ? 0.5 : 0,
+      brokenTools: [],
+      suspicion: 0,
       score: 0,
     };
-    this.players.set(socket.id, player);
+    this.players.set(player.id, player);
+    if (!this.hostId) this.hostId = player.id;
     this.metrics.suspicionByPlayer[player.id] = player.suspicion;
-    this.drawCards(player, 5);
-    if (!this.metrics.activePlayerId) {
-      this.metrics.activePlayerId = socket.id;
-      this.turnIndex = 0;
-      this.setTurnTimer();
-    }
-    run('UPDATE lobbies SET current_count = ? WHERE code = ?', [this.players.size, this.id]).catch(() => {});
+    run('UPDATE lobbies SET current_count = ? WHERE code = ?', [this.players.size, this.id])
+      .then(() => publishLobby(this.id))
+      .catch(() => {});
+    return player;
+  }
+
+  resumePlayer(socket, resumeToken) {
+    if (!resumeToken) return null;
+    const player = [...this.players.values()].find((p) => p.resumeToken === resumeToken);
+    if (!player) return null;
+    clearTimeout(player.graceTimer);
+    player.graceTimer = null;
+    player.socketId = socket.id;
+    player.connected = true;
+    player.connectedAt = Date.now();
+    this.reclaimSeat(player.id);
     return player;
   }
 
-  drawCards(player, count) {
-    for (let i = 0; i < count; i += 1) {
-      const card = this.deck.pop();
-      if (!card) break;
-      player.hand.push(card);
+  /** Hands an away or disconnected dwarf's seat to a bot. Returns true when the bot took over. */
+  engageAutopilot(playerId) {
+    const player = this.players.get(playerId);
+    if (!player || player.bot || player.autopilot) return false;
+    player.autopilot = true;
+    // It may already be their turn, or their pick of the gold
+    if (this.metrics.activePlayerId === playerId) this.scheduleBotTurn();
+    if (this.phase === 'nuggets' && this.nuggetPickerId() === playerId) this.setNuggetTimer();
+    return true;
+  }
+
+  /** Gives a returning dwarf their seat back from the bot. Returns true when they were on autopilot. */
+  reclaimSeat(playerId) {
+    const player = this.players.get(playerId);
+    if (!player) return false;
+    player.missedTurns = 0;
+    if (!player.autopilot) return false;
+    player.autopilot = false;
+    if (this.metrics.activePlayerId === playerId) {
+      clearTimeout(this.botTimer);
+      this.botTimer = null;
     }
-    this.metrics.deckRemaining = this.deck.length;
-    this.maybeDeclareSaboteurWin();
-    this.maybeFinishRound();
+    if (this.phase === 'nuggets' && this.nuggetPickerId() === playerId) this.setNuggetTimer();
+    return true;
+  }
+
+  botControlled(playerId) {
+    const player = this.players.get(playerId);
+    return !!(player?.bot || player?.autopilot);
+  }
+
+  holdSeat(id, onExpire) {
+    const player = this.players.get(id);
+    if (!player) return;
+    player.connected = false;
+    clearTimeout(player.graceTimer);
+    player.graceTimer = setTimeout(onExpire, RESUME_GRACE_MS);
   }
 
   removePlayer(id) {
+    clearTimeout(this.players.get(id)?.graceTimer);
     this.players.delete(id);
     delete this.metrics.suspicionByPlayer[id];
+    // A departing dwarf takes their hand with them, which may leave nobody holding cards
+    this.maybeDeclareSaboteurWin();
+    this.maybeFinishRound();
     if (this.metrics.activePlayerId === id) {
       this.advanceTurn();
     }
-    run('UPDATE lobbies SET current_count = ? WHERE code = ?', [this.players.size, this.id]).catch(() => {});
+    run('UPDATE lobbies SET current_count = ? WHERE code = ?', [this.players.size, this.id])
+      .then(() => publishLobby(this.id))
+      .catch(() => {});
   }
 
   updatePlayerPose(id, position, rotation) {
@@ -351,29 +348,88 @@ class GameRoom {
     player.rotation = rotation;
   }
 
-  serializePlayers(requestingId) {
-    return [...this.players.values()].map((player) => ({
+  snapshotPlayer(player, requestingId) {
+    return {
       id: player.id,
       name: player.name,
-      role: player.id === requestingId ? player.role : 'unknown',
+      color: player.color ?? undefined,
+      avatarUrl: player.avatarUrl ?? undefined,
+      bot: player.bot ?? undefined,
+      autopilot: player.autopilot,
+      role: player.id === requestingId ? player.role ?? 'unknown' : 'unknown',
       position: player.position,
       rotation: player.rotation,
       connected: player.connected,
-      toolBroken: player.toolBroken,
+      brokenTools: [...player.brokenTools],
       suspicion: this.metrics.suspicionByPlayer[player.id] ?? 0,
       score: player.score,
-    }));
+    };
+  }
+
+  serializePlayers(requestingId) {
+    return [...this.players.values()].map((player) => this.snapshotPlayer(player, requestingId));
+  }
+
+  /** Everything a client needs to rebuild its view of the room, on first join or on resume. */
+  welcomePayload(player) {
+    return {
+      playerId: player.id,
+      role: player.role ?? undefined,
+      board: this.publicBoard(),
+      players: this.serializePlayers(player.id),
+      hand: player.hand,
+      metrics: this.metrics,
+      peekedGoals: player.peekedGoals,
+      roomCode: this.id,
+      resumeToken: player.resumeToken,
+      hostId: this.hostId,
+      locked: this.locked,
+    };
+  }
+
+  /** What a spectator sees: the public table without any seat, hand or secrets. */
+  spectatorPayload() {
+    return {
+      playerId: '',
+      spectator: true,
+      board: this.publicBoard(),
+      players: this.serializePlayers(),
+      hand: [],
+      metrics: this.metrics,
+      peekedGoals: {},
+      roomCode: this.id,
+      hostId: this.hostId,
+      locked: this.locked,
+    };
   }
 
   activePlayer() {
     return this.metrics.activePlayerId;
   }
 
+  /**
+   * Hands the host seat to the dwarf connected the longest once the current host
+   * is gone or offline. Returns true when the host changed.
+   */
+  migrateHost() {
+    if (this.players.get(this.hostId)?.connected) return false;
+    // Bots never host, even when every human has dropped
+    const humans = [...this.players.values()].filter((player) => !player.bot);
+    const online = humans.filter((player) => player.connected);
+    const next = online.sort((a, b) => a.connectedAt - b.connectedAt)[0] ?? this.players.get(this.hostId) ?? humans[0];
+    const nextId = next?.id ?? null;
+    if (nextId === this.hostId) return false;
+    this.hostId = nextId;
+    return true;
+  }
+
   clearTurnTimer() {
     if (this.turnTimer) {
       clearTimeout(this.turnTimer);
       this.turnTimer = null;
     }
+    clearTimeout(this.botTimer);
+    this.botTimer = null;
   }
 
   setTurnTimer() {
@@ -381,272 +437,153 @@ class GameRoom {
     if (!this.metrics.activePlayerId) return;
     this.metrics.turnEndsAt = Date.now() + 60000;
     this.turnTimer = setTimeout(() => {
-      this.advanceTurn();
+      this.expireTurn();
     }, 60000);
+    this.scheduleBotTurn();
     if (this.io) {
       this.io.to(this.id).emit('metrics', this.metrics);
     }
   }
 
-  advanceTurn() {
-    const ids = [...this.players.keys()];
-    if (ids.length === 0) {
-      this.metrics.activePlayerId = null;
-      this.metrics.turnEndsAt = null;
-      this.clearTurnTimer();
-      return;
-    }
-    // ensure turnIndex points to current active
-    const currentIdx = ids.indexOf(this.metrics.activePlayerId);
-    this.turnIndex = currentIdx >= 0 ? currentIdx : 0;
-    this.turnIndex = (this.turnIndex + 1) % ids.length;
-    this.metrics.activePlayerId = ids[this.turnIndex];
-    this.setTurnTimer();
-    if (this.io) {
-      this.io.to(this.id).emit('metrics', this.metrics);
-    }
+  scheduleBotTurn() {
+    clearTimeout(this.botTimer);
+    this.botTimer = null;
+    const botId = this.metrics.activePlayerId;
+    if (!this.botControlled(botId)) return;
+    this.botTimer = setTimeout(() => this.playBotTurn(botId), BOT_TURN_DELAY_MS);
   }
 
-  placeCard(playerId, payload) {
-    if (this.metrics.activePlayerId && this.metrics.activePlayerId !== playerId) {
-      return { error: 'Not your turn' };
-    }
+  /** Plays a computer player's turn exactly as a human's move would be played and announced. */
+  playBotTurn(botId) {
+    if (!this.botControlled(botId)) return;
+    const turn = this.playBotMove(botId, this.players.get(botId).bot ?? AUTOPILOT_DIFFICULTY);
+    if (turn?.result.success && this.io) broadcastMove(this.id, this, botId, turn.move, turn.result);
+  }
+
+  expireTurn() {
     const endedBefore = this.roundEnded;
-    const player = this.players.get(playerId);
-    if (!player) return { error: 'Unknown player' };
-    if (player.toolBroken) return { error: 'Tool broken' };
-    const card = player.hand.find((c) => c.instanceId === payload.cardInstanceId);
-    if (!card) return { error: 'Card not available' };
-    const def = CARD_LIBRARY[card.cardKey];
-    if (def.category !== 'path') return { error: 'Not a path card' };
-    const tile = findTile(this.board, payload.targetTileId);
-    if (!tile || tile.tileType === 'start' || tile.tileType === 'goal') return { error: 'Invalid tile' };
-    if (tile.tileType === 'path') return { error: 'Tile already filled' };
-    const connectors = rotateConnectors(def.connectors, payload.rotation);
-    const prevProgress = this.metrics.progress;
-    let hasValidAttachment = false;
-    let mismatch = false;
-    neighbors.forEach(({ key, dr, dc, opposite }) => {
-      const neighbor = this.board.tiles.find((t) => t.row === tile.row + dr && t.col === tile.col + dc);
-      if (!neighbor || !neighbor.connectors) return;
-      if (connectors[key] && neighbor.connectors[opposite]) {
-        hasValidAttachment = true;
-      } else if (connectors[key] || neighbor.connectors[opposite]) {
-        mismatch = true;
-      }
-    });
-    if (!hasValidAttachment || mismatch) {
-      return { error: 'Card does not connect cleanly' };
-    }
-    Object.assign(tile, {
-      tileType: 'path',
-      connectors,
-      cardKey: card.cardKey,
-      rotation: payload.rotation,
-      revealed: true,
-      ownerId: playerId,
-    });
-    player.hand = player.hand.filter((c) => c.instanceId !== card.instanceId);
-    this.discard.push(card);
-    this.metrics.turnsTaken += 1;
-    this.metrics.suspicionByPlayer[playerId] = Math.max(
-      0,
-      (this.metrics.suspicionByPlayer[playerId] ?? 0) - 0.05,
-    );
-    const deltaProgress = this.metrics.progress - prevProgress;
-    this.metrics.efficiencyByPlayer[playerId] = (this.metrics.efficiencyByPlayer[playerId] ?? 0) + deltaProgress;
-    this.drawCards(player, 1);
-    this.syncBoardTelemetry();
+    const player = this.players.get(this.metrics.activePlayerId);
+    if (player) player.missedTurns += 1;
+    if (player?.missedTurns >= AUTOPILOT_AFTER_MISSED_TURNS && this.engageAutopilot(player.id) && this.io) {
+      announceAutopilot(this.id, this, player);
+    }
+    // Once the deck is spent an idle dwarf forfeits a card, otherwise the hands could never run dry
+    if (player && this.deck.length === 0 && player.hand.length) {
+      this.spendCard(player, player.hand[0]);
+      recordMatchAction(this, 'discard', player.id, { timedOut: true });
+      this.maybeDeclareSaboteurWin();
+      this.maybeFinishRound();
+      this.io?.to(player.socketId).emit('handUpdated', player.hand);
+    }
     this.advanceTurn();
-    this.maybeFinishRound(playerId);
-    const justEnded = !endedBefore && this.roundEnded;
-    return { success: true, card, roundEnded: justEnded, placerId: justEnded ? playerId : undefined };
+    if (!endedBefore && this.roundEnded && this.io) {
+      broadcastRoundEnd(this.id, this);
+    }
   }
 
-  triggerRockfall(playerId, tileId) {
-    if (this.metrics.activePlayerId && this.metrics.activePlayerId !== playerId) {
-      return { error: 'Not your turn' };
+  clearNuggetTimer() {
+    if (this.nuggetTimer) {
+      clearTimeout(this.nuggetTimer);
+      this.nuggetTimer = null;
     }
-    const player = this.players.get(playerId);
-    if (!player) return { error: 'Unknown player' };
-    const card = player.hand.find((c) => c.cardKey === 'rockfall');
-    if (!card) return { error: 'No rockfall card' };
-    const tile = findTile(this.board, tileId);
-    if (!tile || tile.tileType !== 'path') return { error: 'Tile is not a tunnel' };
-    Object.assign(tile, {
-      tileType: 'blocked',
-      connectors: undefined,
-      cardKey: undefined,
-      rotation: undefined,
-    });
-    player.hand = player.hand.filter((c) => c.instanceId !== card.instanceId);
-    this.metrics.collapsedTiles += 1;
-    this.metrics.turnsTaken += 1;
-    this.metrics.suspicionByPlayer[playerId] = Math.min(
-      1,
-      (this.metrics.suspicionByPlayer[playerId] ?? 0) + 0.15,
-    );
-    this.drawCards(player, 1);
-    this.syncBoardTelemetry();
-    this.advanceTurn();
+  }
+
+  setNuggetTimer() {
+    this.clearNuggetTimer();
+    // Bots pick straight away, with no time limit to wait out
+    const delay = this.botControlled(this.nuggetPickerId()) ? BOT_TURN_DELAY_MS : NUGGET_PICK_MS;
+    this.nuggetDraft.endsAt = Date.now() + delay;
+    this.nuggetTimer = setTimeout(() => {
+      // An idle miner (or a bot) is handed the richest card left
+      this.pickRichestNugget();
+      if (this.io) broadcastNuggetDraft(this.id, this);
+    }, delay);
+  }
+
+  startGame(playerId) {
+    if (this.phase !== 'lobby') return { error: 'The game has already started' };
+    if (playerId !== this.hostId) return { error: 'Only the host can start the game' };
+    if (this.players.size < MIN_PLAYERS) return { error: `At least ${MIN_PLAYERS} dwarves are needed to start` };
+    this.startNewGame();
     return { success: true };
   }
 
-  applyToolEffect(actorId, { targetPlayerId, cardKey }) {
-    if (this.metrics.activePlayerId && this.metrics.activePlayerId !== actorId) {
-      return { error: 'Not your turn' };
-    }
-    const actor = this.players.get(actorId);
-    const target = this.players.get(targetPlayerId);
-    if (!actor || !target) return { error: 'Players missing' };
-    const card = actor.hand.find((c) => c.cardKey === cardKey);
-    if (!card) return { error: 'Card missing' };
-    if (cardKey === 'break') {
-      target.toolBroken = true;
-      this.metrics.suspicionByPlayer[actorId] = Math.min(
-        1,
-        (this.metrics.suspicionByPlayer[actorId] ?? 0) + 0.12,
-      );
-    } else {
-      target.toolBroken = false;
-      this.metrics.suspicionByPlayer[actorId] = Math.max(
-        0,
-        (this.metrics.suspicionByPlayer[actorId] ?? 0) - 0.04,
-      );
-    }
-    actor.hand = actor.hand.filter((c) => c.instanceId !== card.instanceId);
-    this.drawCards(actor, 1);
-    this.metrics.turnsTaken += 1;
-    this.advanceTurn();
+  moderationError(playerId, targetId) {
+    if (playerId !== this.hostId) return 'Only the host can do that';
+    if (targetId === playerId) return 'You cannot remove yourself';
+    if (!this.players.has(targetId)) return 'That player is not in this lobby';
+    return null;
+  }
+
+  addBot(playerId, difficulty) {
+    if (playerId !== this.hostId) return { error: 'Only the host can add computer players' };
+    if (this.phase !== 'lobby') return { error: 'Computer players can only join before the game starts' };
+    if (!BOT_DIFFICULTIES.includes(difficulty)) return { error: 'Unknown bot difficulty' };
+    if (this.players.size >= this.capacity) return { error: `This lobby is full (${this.players.size}/${this.capacity})` };
+    const taken = new Set([...this.players.values()].map((player) => player.name));
+    const name = BOT_NAMES.find((candidate) => !taken.has(candidate)) ?? `Bot-${this.players.size + 1}`;
+    return { success: true, player: this.insertPlayer(null, name, { bot: difficulty }) };
+  }
+
+  removeBotError(playerId, targetId) {
+    if (playerId !== this.hostId) return 'Only the host can remove computer players';
+    if (this.phase !== 'lobby') return 'Computer players can only leave before the game starts';
+    if (!this.players.get(targetId)?.bot) return 'That seat is not a computer player';
+    return null;
+  }
+
+  setLocked(playerId, locked) {
+    if (playerId !== this.hostId) return { error: 'Only the host can lock the lobby' };
+    this.locked = !!locked;
     return { success: true };
   }
 
-  syncBoardTelemetry() {
-    const { farthestCol, visited } = exploreBoard(this.board);
-    this.metrics.progress = farthestCol / (BOARD_COLUMNS - 1);
-    const goalTiles = this.board.tiles.filter((tile) => tile.tileType === 'goal');
-    goalTiles.forEach((goal) => {
-      if (visited.has(goal.id)) {
-        goal.revealed = true;
-        if (goal.cardKey === 'gold') {
-          this.board.winningTeam = 'miner';
-        }
-      }
-    });
-    this.maybeDeclareSaboteurWin();
-    this.metrics.deckRemaining = this.deck.length;
-  }
-
-  maybeDeclareSaboteurWin() {
-    if (!this.board.winningTeam && this.metrics.deckRemaining === 0) {
-      this.board.winningTeam = 'saboteur';
-    }
-  }
-
-  applyRoundRewards(placerId) {
-    const goldByPlayer = { ...this.metrics.goldByPlayer };
-    const playersArr = [...this.players.values()];
-    const miners = playersArr.filter((p) => p.role === 'miner');
-    const sabos = playersArr.filter((p) => p.role === 'saboteur');
-    let awards = {};
-    let winners = [];
-    if (this.board.winningTeam === 'miner') {
-      // Simulate nugget cards (value 1-3) equal to player count, distributed starting at placer
-      const nuggetCards = Array.from({ length: playersArr.length }, () => 1 + Math.floor(Math.random() * 3));
-      let order = miners;
-      if (placerId) {
-        const startIdx = miners.findIndex((m) => m.id === placerId);
-        if (startIdx >= 0) {
-          order = [...miners.slice(startIdx), ...miners.slice(0, startIdx)];
-        }
-      }
-      nuggetCards.forEach((value, idx) => {
-        const miner = order[idx % order.length];
-        miner.score = (miner.score || 0) + value;
-        goldByPlayer[miner.id] = (goldByPlayer[miner.id] || 0) + value;
-        awards[miner.id] = (awards[miner.id] || 0) + value;
-      });
-      winners = order.map((p) => p.id);
-    } else if (this.board.winningTeam === 'saboteur') {
-      let award = 0;
-      if (sabos.length === 1) award = 4;
-      else if (sabos.length === 2 || sabos.length === 3) award = 3;
-      else award = 2;
-      sabos.forEach((s) => {
-        s.score = (s.score || 0) + award;
-        goldByPlayer[s.id] = (goldByPlayer[s.id] || 0) + award;
-        awards[s.id] = (awards[s.id] || 0) + award;
-      });
-      winners = sabos.map((p) => p.id);
-    }
-    this.metrics.goldByPlayer = goldByPlayer;
-    return { awards, winners };
+  restartGame(playerId) {
+    if (playerId !== this.hostId) return { error: 'Only the host can start the next round' };
+    return this.nextRound();
   }
 
-  maybeFinishRound(placerId) {
-    if (this.roundEnded) return;
-    if (this.board.winningTeam) {
-      this.roundEnded = true;
-      this.lastWinnerId = placerId;
-      const res = this.applyRoundRewards(placerId);
-      this.lastAwards = res.awards;
-      this.lastWinners = res.winners;
-      this.lastWinningTeam = this.board.winningTeam;
-    }
+  // The table's lifecycle drives the room's clocks, its bots and the match record
+  onTurnStarted() {
+    this.setTurnTimer();
   }
 
-  resetRoom() {
-    // Recreate board, deck, discard, metrics
-    this.board = createBoard();
-    this.deck = generateDeck();
-    this.discard = [];
-    this.roundEnded = false;
-    this.roundNumber += 1;
-    this.lastAwards = {};
-    this.lastWinnerId = undefined;
-    this.lastWinningTeam = undefined;
-    this.metrics = {
-      deckRemaining: this.deck.length,
-      progress: 0,
-      collapsedTiles: 0,
-      suspicionByPlayer: {},
-      turnsTaken: 0,
-      goldByPlayer: { ...this.metrics.goldByPlayer },
-      round: this.roundNumber,
-      efficiencyByPlayer: {},
-      activePlayerId: null,
-      turnEndsAt: null,
-    };
+  onNuggetPick() {
+    this.setNuggetTimer();
+  }
+
+  onTurnsOver() {
     this.clearTurnTimer();
-    this.turnIndex = 0;
-
-    // Reassign roles and reset players
-    const roles = roleDistribution(this.players.size);
-    [...this.players.values()].forEach((player, idx) => {
-      const role = roles[idx];
-      const prevScore = player.score || 0;
-      Object.assign(player, {
-        role,
-        position: { x: 0, y: 1.6, z: 0 },
-        rotation: { x: 0, y: 0, z: 0, w: 1 },
-        hand: [],
-        connected: true,
-        toolBroken: false,
-        suspicion: role === 'saboteur' ? 0.5 : 0,
-        score: prevScore,
-      });
-      this.metrics.suspicionByPlayer[player.id] = player.suspicion;
-      this.drawCards(player, 5);
-    });
+  }
 
-    // Set active player to first in list if any
-    const ids = [...this.players.keys()];
-    if (ids.length > 0) {
-      this.metrics.activePlayerId = ids[0];
-      this.setTurnTimer();
-    }
+  onDraftOver() {
+    this.clearNuggetTimer();
+  }
+
+  onAction(type, playerId, payload) {
+    recordMatchAction(this, type, playerId, payload);
+  }
+
+  onGameStarted() {
+    openMatch(this);
+  }
+
+  onRoundDealt() {
+    recordMatchRound(this);
+  }
 
-    this.syncBoardTelemetry();
+  onRoundSettled(awards) {
+    recordRoundStats(this, awards);
+    settleMatchRound(this, awards);
+  }
+
+  resetRoom() {
+    // Every dwarf starts the round back at the mine entrance
+    this.players.forEach((player) => {
+      player.position = { x: 0, y: 1.6, z: 0 };
+      player.rotation = { x: 0, y: 0, z: 0, w: 1 };
+    });
+    super.resetRoom();
   }
 }
 
@@ -655,8 +592,8 @@ app.use(express.json());
 // CORS for REST endpoints (client runs on a different port)
 app.use((req, res, next) => {
   res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept');
-  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,PATCH,OPTIONS');
   if (req.method === 'OPTIONS') return res.sendStatus(204);
   return next();
 });
@@ -666,6 +603,25 @@ const io = new Server(server, {
   cors: { origin: '*' },
 });
 
+// Socket room for everyone looking at the lobby list on the intro screen
+const LOBBY_BROWSER = 'lobby-browser';
+
+const listPublicLobbies = () => all(`SELECT ${LOBBY_COLUMNS} FROM lobbies WHERE COALESCE(private, 0) = 0`);
+
+/** Pushes a lobby's current row to the lobby browser, or its removal once the row is gone. */
+const publishLobby = async (code, event = 'lobbyUpdated') => {
+  try {
+    const row = await get(`SELECT ${LOBBY_COLUMNS} FROM lobbies WHERE code = ?`, [code]);
+    if (!row) {
+      io.to(LOBBY_BROWSER).emit('lobbyRemoved', code);
+    } else if (!row.isPrivate) {
+      io.to(LOBBY_BROWSER).emit(event, row);
+    }
+  } catch (err) {
+    console.error('lobby publish failed', err);
+  }
+};
+
 const rooms = new Map();
 app.get('/health', (_req, res) => {
   res.json({ ok: true });
@@ -686,7 +642,8 @@ app.post('/api/register', async (req, res) => {
       salt,
       Date.now(),
     ]);
-    return res.json({ userId, name });
+    await run('INSERT INTO profiles (user_id, display_name, updated_at) VALUES (?,?,?)', [userId, name, Date.now()]);
+    return res.json({ userId, name, ...signSession(userId, name) });
   } catch (err) {
     console.error('register error', err);
     return res.status(500).json({ error: 'failed to register' });
@@ -702,94 +659,576 @@ app.post('/api/login', async (req, res) => {
     if (!verifyPassword(password, user.password_salt, user.password_hash)) {
       return res.status(401).json({ error: 'invalid credentials' });
     }
-    return res.json({ userId: user.id, name });
+    return res.json({ userId: user.id, name, ...signSession(user.id, name) });
   } catch (err) {
     console.error('login error', err);
     return res.status(500).json({ error: 'failed to login' });
   }
 });
 
-app.get('/api/lobbies', async (_req, res) => {
+const sessionFromRequest = (req) => verifySession((req.get('authorization') ?? '').replace(/^Bearer /, ''));
+
+const DISPLAY_NAME_MAX = 24;
+
+/** Validates a profile edit; returns an error message or null. Empty strings clear avatar and colour. */
+const profileUpdateError = ({ displayName, avatarUrl, dwarfColor }) => {
+  if (displayName !== undefined) {
+    if (typeof displayName !== 'string' || !displayName.trim()) return 'display name required';
+    if (displayName.trim().length > DISPLAY_NAME_MAX) return `display name must be at most ${DISPLAY_NAME_MAX} characters`;
+  }
+  if (avatarUrl !== undefined && avatarUrl !== '' && !/^https?:\/\/\S{1,500}$/.test(avatarUrl)) {
+    return 'avatar must be an http(s) URL';
+  }
+  if (dwarfColor !== undefined && dwarfColor !== '' && !/^#[0-9a-f]{6}$/i.test(dwarfColor)) {
+    return 'dwarf colour must look like #aabbcc';
+  }
+  return null;
+};
+
+app.get('/api/profile/:id', async (req, res) => {
   try {
-    const rows = await all(
-      'SELECT code, host_id as hostId, name, status, capacity, current_count as currentCount, created_at as createdAt FROM lobbies',
+    const row = await get(`SELECT ${PROFILE_COLUMNS} FROM profiles WHERE user_id = ?`, [req.params.id]);
+    if (!row) return res.status(404).json({ error: 'profile not found' });
+    return res.json(row);
+  } catch (err) {
+    console.error('profile fetch error', err);
+    return res.status(500).json({ error: 'failed to fetch profile' });
+  }
+});
+
+// Stats are server-kept; only the cosmetic fields can be edited, and only by the signed-in owner
+app.patch('/api/profile', async (req, res) => {
+  try {
+    const session = sessionFromRequest(req);
+    if (!session) return res.status(401).json({ error: 'not signed in' });
+    const { displayName, avatarUrl, dwarfColor } = req.body || {};
+    const error = profileUpdateError({ displayName, avatarUrl, dwarfColor });
+    if (error) return res.status(400).json({ error });
+    const changes = Object.entries({ display_name: displayName?.trim(), avatar_url: avatarUrl, dwarf_color: dwarfColor })
+      .filter(([, value]) => value !== undefined)
+      .map(([column, value]) => [column, value === '' ? null : value]);
+    await run(
+      `UPDATE profiles SET ${[...changes.map(([column]) => `${column} = ?`), 'updated_at = ?'].join(', ')} WHERE user_id = ?`,
+      [...changes.map(([, value]) => value), Date.now(), session.sub],
     );
-    res.json(rows);
+    const row = await get(`SELECT ${PROFILE_COLUMNS} FROM profiles WHERE user_id = ?`, [session.sub]);
+    if (!row) return res.status(404).json({ error: 'profile not found' });
+    return res.json(row);
+  } catch (err) {
+    console.error('profile update error', err);
+    return res.status(500).json({ error: 'failed to update profile' });
+  }
+});
+
+const parseJson = (text, fallback) => (text ? JSON.parse(text) : fallback);
+
+// Newest first; pass ?userId= for one account's games
+app.get('/api/matches', async (req, res) => {
+  try {
+    const limit = Math.min(Number(req.query.limit) || 20, 100);
+    const { userId } = req.query;
+    const matches = userId
+      ? await all(
+          `SELECT ${MATCH_COLUMNS} FROM matches WHERE id IN (SELECT match_id FROM match_players WHERE user_id = ?) ORDER BY started_at DESC LIMIT ?`,
+          [userId, limit],
+        )
+      : await all(`SELECT ${MATCH_COLUMNS} FROM matches ORDER BY started_at DESC LIMIT ?`, [limit]);
+    const players = matches.length
+      ? await all(
+          `SELECT match_id as matchId, player_id as id, user_id as userId, name, seat, gold FROM match_players WHERE match_id IN (${matches
+            .map(() => '?')
+            .join(',')}) ORDER BY seat`,
+          matches.map((match) => match.id),
+        )
+      : [];
+    res.json(
+      matches.map((match) => ({
+        ...match,
+        // A running game's seed would give away every card still to come
+        seed: match.status === 'playing' ? null : match.seed,
+        winners: parseJson(match.winners, []),
+        players: players.filter((player) => player.matchId === match.id).map(({ matchId, ...player }) => player),
+      })),
+    );
+  } catch (err) {
+    console.error('matches list error', err);
+    res.status(500).json({ error: 'failed to list matches' });
+  }
+});
+
+app.get('/api/matches/:id', async (req, res) => {
+  try {
+    const match = await get(`SELECT ${MATCH_COLUMNS} FROM matches WHERE id = ?`, [req.params.id]);
+    if (!match) return res.status(404).json({ error: 'match not found' });
+    // Roles and goal cards stay secret until the game is over
+    if (match.status === 'playing') return res.status(409).json({ error: 'match still in progress' });
+    const [players, rounds, actions] = await Promise.all([
+      all('SELECT player_id as id, user_id as userId, name, seat, gold FROM match_players WHERE match_id = ? ORDER BY seat', [
+        match.id,
+      ]),
+      all(
+        'SELECT round, roles, board, winning_team as winningTeam, awards, started_at as startedAt FROM match_rounds WHERE match_id = ? ORDER BY round',
+        [match.id],
+      ),
+      all(
+        'SELECT seq, round, type, player_id as playerId, payload, created_at as createdAt FROM match_actions WHERE match_id = ? ORDER BY seq',
+        [match.id],
+      ),
+    ]);
+    return res.json({
+      ...match,
+      winners: parseJson(match.winners, []),
+      players,
+      rounds: rounds.map((round) => ({
+        ...round,
+        roles: parseJson(round.roles, {}),
+        board: parseJson(round.board, null),
+        awards: parseJson(round.awards, {}),
+      })),
+      actions: actions.map((action) => ({ ...action, payload: parseJson(action.payload, {}) })),
+    });
+  } catch (err) {
+    console.error('match fetch error', err);
+    return res.status(500).json({ error: 'failed to fetch match' });
+  }
+});
+
+app.get('/api/lobbies', async (_req, res) => {
+  try {
+    // Private lobbies are reachable only through their invite link
+    res.json(await listPublicLobbies());
   } catch (err) {
     console.error('lobbies list error', err);
     res.status(500).json({ error: 'failed to list lobbies' });
   }
 });
 
+app.get('/api/lobbies/:code', async (req, res) => {
+  try {
+    const row = await get(`SELECT ${LOBBY_COLUMNS} FROM lobbies WHERE code = ?`, [req.params.code]);
+    if (!row) return res.status(404).json({ error: 'lobby not found' });
+    return res.json(row);
+  } catch (err) {
+    console.error('lobby lookup error', err);
+    return res.status(500).json({ error: 'failed to look up lobby' });
+  }
+});
+
 app.post('/api/lobbies', async (req, res) => {
   try {
-    const { name = 'Lobby', hostId = null, capacity = 6 } = req.body || {};
+    const { name = 'Lobby', hostId = null, capacity = 6, isPrivate = false, passcode = '', seed = null } = req.body || {};
+    // An optional seed makes the lobby's games reproducible; it stays private to the match records
+    if (seed !== null && !isSeed(seed)) {
+      return res.status(400).json({ error: `seed must be a whole number from 0 to ${MAX_SEED}` });
+    }
+    // A lobby must be able to start a game, and its seat count must compare against the players in it
+    if (!Number.isInteger(capacity) || capacity < MIN_PLAYERS || capacity > MAX_PLAYERS) {
+      return res.status(400).json({ error: `capacity must be a whole number from ${MIN_PLAYERS} to ${MAX_PLAYERS}` });
+    }
     const code = uuid().slice(0, 6);
-    await run('INSERT INTO lobbies (code, host_id, name, status, capacity, current_count, created_at) VALUES (?,?,?,?,?,?,?)', [
+    // Passcodes are kept the same way as account passwords: salted and hashed, never in the clear
+    const secret = passcode ? hashPassword(passcode) : { hash: null, salt: null };
+    await run(
+      'INSERT INTO lobbies (code, host_id, name, status, capacity, current_count, private, passcode_hash, passcode_salt, seed, created_at) VALUES (?,?,?,?,?,?,?,?,?,?,?)',
+      [code, hostId, name, 'open', capacity, 0, isPrivate ? 1 : 0, secret.hash, secret.salt, seed, Date.now()],
+    );
+    publishLobby(code, 'lobbyCreated');
+    res.json({
       code,
       hostId,
       name,
-      'open',
       capacity,
-      0,
-      Date.now(),
-    ]);
-    res.json({ code, hostId, name, capacity, currentCount: 0, status: 'open', createdAt: Date.now() });
+      currentCount: 0,
+      status: 'open',
+      isPrivate: !!isPrivate,
+      hasPasscode: !!passcode,
+      createdAt: Date.now(),
+    });
   } catch (err) {
     console.error('create lobby error', err);
     res.status(500).json({ error: 'failed to create lobby' });
   }
 });
 
+// Lifetime stats only follow signed-in players; guests have no profile to credit
+const recordRoundStats = (room, awards) => {
+  const team = room.board.winningTeam;
+  const gameOver = room.phase === 'gameOver';
+  room.players.forEach((player) => {
+    if (!player.userId || !player.role) return;
+    const won = player.role === team;
+    run(
+      'UPDATE profiles SET miner_wins = miner_wins + ?, saboteur_wins = saboteur_wins + ?, total_gold = total_gold + ?, games_played = games_played + ?, updated_at = ? WHERE user_id = ?',
+      [
+        won && team === 'miner' ? 1 : 0,
+        won && team === 'saboteur' ? 1 : 0,
+        awards[player.id] ?? 0,
+        gameOver ? 1 : 0,
+        Date.now(),
+        player.userId,
+      ],
+    ).catch((err) => console.error('profile stats update failed', err));
+  });
+};
+
+const logMatchError = (what) => (err) => console.error(`match ${what} failed`, err);
+
+const openMatch = (room) => {
+  room.matchId = uuid();
+  room.matchSeq = 0;
+  run('INSERT INTO matches (id, room_code, status, seed, started_at) VALUES (?,?,?,?,?)', [
+    room.matchId,
+    room.id,
+    'playing',
+    room.seed,
+    Date.now(),
+  ]).catch(logMatchError('open'));
+};
+
+/** Stores a round's opening board (goals face up) and roles, and seats anyone new to the match. */
+const recordMatchRound = (room) => {
+  if (!room.matchId) return;
+  run('INSERT OR REPLACE INTO match_rounds (match_id, round, roles, board, started_at) VALUES (?,?,?,?,?)', [
+    room.matchId,
+    room.roundNumber,
+    JSON.stringify(room.revealRoles()),
+    JSON.stringify(room.board),
+    Date.now(),
+  ]).catch(logMatchError('round'));
+  [...room.players.values()].forEach((player, seat) => {
+    run('INSERT OR IGNORE INTO match_players (match_id, player_id, user_id, name, seat) VALUES (?,?,?,?,?)', [
+      room.matchId,
+      player.id,
+      player.userId,
+      player.name,
+      seat,
+    ]).catch(logMatchError('player'));
+  });
+};
+
+// Actions are numbered as they happen so the log replays in order however the writes land
+const recordMatchAction = (room, type, playerId, payload = {}) => {
+  if (!room.matchId) return;
+  room.matchSeq += 1;
+  run(
+    'INSERT INTO match_actions (match_id, seq, round, type, player_id, payload, created_at) VALUES (?,?,?,?,?,?,?)',
+    [room.matchId, room.matchSeq, room.roundNumber, type, playerId, JSON.stringify(payload), Date.now()],
+  ).catch(logMatchError('action'));
+};
+
+const settleMatchRound = (room, awards) => {
+  if (!room.matchId) return;
+  run('UPDATE match_rounds SET winning_team = ?, awards = ? WHERE match_id = ? AND round = ?', [
+    room.board.winningTeam ?? null,
+    JSON.stringify(awards),
+    room.matchId,
+    room.roundNumber,
+  ]).catch(logMatchError('round result'));
+  run('UPDATE matches SET rounds = ? WHERE id = ?', [room.roundNumber, room.matchId]).catch(logMatchError('rounds'));
+  if (room.phase === 'gameOver') closeMatch(room, 'finished');
+};
+
+/** Final gold and winners; a game whose room empties before the last round is kept as 'abandoned'. */
+const closeMatch = (room, status) => {
+  if (!room.matchId) return;
+  const matchId = room.matchId;
+  room.matchId = null;
+  const winners = status === 'finished' ? room.finalStandings().winners : [];
+  run('UPDATE matches SET status = ?, winners = ?, ended_at = ? WHERE id = ?', [
+    status,
+    JSON.stringify(winners),
+    Date.now(),
+    matchId,
+  ]).catch(logMatchError('close'));
+  Object.entries(room.metrics.goldByPlayer).forEach(([playerId, gold]) => {
+    run('UPDATE match_players SET gold = ? WHERE match_id = ? AND player_id = ?', [gold, matchId, playerId]).catch(
+      logMatchError('gold'),
+    );
+  });
+};
+
+const broadcastDeal = (roomCode, room) => {
+  io.to(roomCode).emit('players', room.serializePlayers());
+  io.to(roomCode).emit('boardUpdated', room.publicBoard());
+  io.to(roomCode).emit('metrics', room.metrics);
+  room.players.forEach((player) => {
+    if (!player.socketId) return;
+    io.to(player.socketId).emit('roleAssigned', player.role);
+    io.to(player.socketId).emit('handUpdated', player.hand);
+  });
+  run('UPDATE lobbies SET status = ? WHERE code = ?', ['playing', roomCode])
+    .then(() => publishLobby(roomCode))
+    .catch((err) => console.error('lobby status update failed', err));
+};
+
+const broadcastRoundEnd = (roomCode, room) => {
+  // Miners divide the gold before the round is scored
+  if (room.phase === 'nuggets') {
+    broadcastNuggetDraft(roomCode, room);
+    return;
+  }
+  io.to(roomCode).emit('players', room.serializePlayers());
+  io.to(roomCode).emit('roundEnded', {
+    team: room.lastWinningTeam ?? room.board.winningTeam,
+    awards: room.lastAwards || {},
+    placerId: room.lastWinnerId,
+    round: room.roundNumber,
+    winners: room.lastWinners || [],
+    roles: room.revealRoles(),
+  });
+  io.to(roomCode).emit('metrics', room.metrics);
+  if (room.phase !== 'gameOver') return;
+  io.to(roomCode).emit('gameEnded', room.finalStandings());
+  run('UPDATE lobbies SET status = ? WHERE code = ?', ['finished', roomCode]).catch((err) =>
+    console.error('lobby finish update failed', err),
+  );
+};
+
+const broadcastNuggetDraft = (roomCode, room) => {
+  if (room.phase !== 'nuggets') {
+    broadcastRoundEnd(roomCode, room);
+    return;
+  }
+  io.to(roomCode).emit('metrics', room.metrics);
+  io.to(roomCode).emit('nuggetDraft', room.nuggetDraftState());
+};
+
+// Announces a move that was just played; only the mover sees their new hand or what their map showed
+const broadcastMove = (roomCode, room, playerId, move, result) => {
+  const player = room.players.get(playerId);
+  const mover = player.socketId ? io.to(player.socketId) : null;
+  if (move.type === 'tool') {
+    io.to(roomCode).emit('players', room.serializePlayers());
+  }
+  if (move.type === 'map') {
+    mover?.emit('goalPeeked', { tileId: result.tileId, cardKey: result.cardKey });
+  } else {
+    io.to(roomCode).emit('boardUpdated', room.publicBoard());
+  }
+  mover?.emit('handUpdated', player.hand);
+  io.to(roomCode).emit('metrics', room.metrics);
+  if (move.type === 'map') {
+    const tile = room.board.tiles.find((t) => t.id === result.tileId);
+    io.to(roomCode).emit('newChat', {
+      id: uuid(),
+      from: 'Server',
+      body: `${player.name} consulted a map of the goal at (${tile.row}, ${tile.col}).`,
+      createdAt: Date.now(),
+    });
+  }
+  if (move.type === 'discard') {
+    // Discards stay face down: announce the pass, never the card
+    io.to(roomCode).emit('newChat', {
+      id: uuid(),
+      from: 'Server',
+      body: `${player.name} discarded a card and passed.`,
+      createdAt: Date.now(),
+    });
+  }
+  if (result.roundEnded) {
+    broadcastRoundEnd(roomCode, room);
+  }
+};
+
+const announceAutopilot = (roomCode, room, player) => {
+  io.to(roomCode).emit('playerJoined', room.snapshotPlayer(player));
+  io.to(roomCode).emit('newChat', {
+    id: uuid(),
+    from: 'Server',
+    body: player.autopilot
+      ? `${player.name} is away, so a bot is playing their seat for now.`
+      : `${player.name} is back and has taken over from the bot.`,
+    createdAt: Date.now(),
+  });
+  if (room.phase === 'nuggets') broadcastNuggetDraft(roomCode, room);
+};
+
+// The most durable id a seat can be recognised by across sessions
+const playerIdentity = (player) => player.userId || player.clientId || player.id;
+
+const announceHost = (roomCode, room) => {
+  if (!room.migrateHost()) return;
+  io.to(roomCode).emit('hostChanged', room.hostId);
+  const host = room.players.get(room.hostId);
+  if (!host) return;
+  run('UPDATE lobbies SET host_id = ? WHERE code = ?', [playerIdentity(host), roomCode]).catch((err) =>
+    console.error('host handover failed', err),
+  );
+};
+
+const releaseSeat = (roomCode, room, playerId) => {
+  const endedBefore = room.roundEnded;
+  room.removePlayer(playerId);
+  io.to(roomCode).emit('playerLeft', playerId);
+  io.to(roomCode).emit('metrics', room.metrics);
+  if (!endedBefore && room.roundEnded && room.players.size > 0) {
+    broadcastRoundEnd(roomCode, room);
+  }
+  // Computer players never leave on their own, so the room closes with its last human
+  if (![...room.players.values()].some((player) => !player.bot)) {
+    room.clearTurnTimer();
+    room.clearNuggetTimer();
+    closeMatch(room, 'abandoned');
+    rooms.delete(roomCode);
+    run('DELETE FROM lobbies WHERE code = ?', [roomCode])
+      .then(() => publishLobby(roomCode))
+      .catch((err) => console.error('cleanup lobby failed', err));
+  } else {
+    announceHost(roomCode, room);
+    run('UPDATE lobbies SET current_count = ? WHERE code = ?', [room.players.size, roomCode])
+      .then(() => publishLobby(roomCode))
+      .catch((err) => console.error('cleanup lobby count failed', err));
+  }
+};
+
+// Host moderation frees the seat at once instead of holding it for a resume
+const evictPlayer = (roomCode, room, playerId, reason) => {
+  const player = room.players.get(playerId);
+  const target = io.sockets.sockets.get(player.socketId);
+  releaseSeat(roomCode, room, playerId);
+  // The socket stays connected so the evicted player can keep browsing lobbies
+  if (target) {
+    target.emit('kicked', { roomCode, reason });
+    target.leave(roomCode);
+    delete target.data.playerId;
+    delete target.data.roomCode;
+  }
+  io.to(roomCode).emit('newChat', {
+    id: uuid(),
+    from: 'Server',
+    body: `${player.name} was ${reason} by the host`,
+    createdAt: Date.now(),
+  });
+};
+
+// Deals a new room's games from the seed in its lobby settings, or from a random one
+const openRoom = async (roomCode) => {
+  let lobby;
+  try {
+    lobby = await get('SELECT seed, capacity FROM lobbies WHERE code = ?', [roomCode]);
+  } catch (err) {
+    console.error('lobby settings lookup failed', err);
+  }
+  // Another dwarf may have opened the room while the lookup ran
+  if (!rooms.has(roomCode)) {
+    const room = new GameRoom(roomCode, lobby?.seed ?? undefined);
+    room.io = io;
+    room.capacity = Math.min(lobby?.capacity || MAX_PLAYERS, MAX_PLAYERS);
+    rooms.set(roomCode, room);
+  }
+  return rooms.get(roomCode);
+};
+
+const fullRefusal = (seated, capacity) =>
+  seated >= capacity ? { reason: `This lobby is full (${seated}/${capacity})`, full: true } : null;
+
+// Why a new dwarf may not sit down (or watch) in a room, if anything
+const joinRefusal = async (roomCode, { identities, passcode, spectate }) => {
+  if (!spectate && rooms.get(roomCode)?.locked) return { reason: 'This lobby is locked by the host' };
+  if (spectate && !rooms.has(roomCode)) return { reason: 'Nobody is playing in this lobby yet' };
+  let capacity = MAX_PLAYERS;
+  try {
+    const ban = identities.length
+      ? await get(`SELECT 1 FROM lobby_bans WHERE lobby_code = ? AND user_id IN (${identities.map(() => '?').join(',')})`, [
+          roomCode,
+          ...identities,
+        ])
+      : null;
+    if (ban) return { reason: 'You are banned from this lobby' };
+    const lobby = await get('SELECT passcode_hash as hash, passcode_salt as salt, capacity FROM lobbies WHERE code = ?', [
+      roomCode,
+    ]);
+    if (lobby?.hash && !(passcode && verifyPassword(passcode, lobby.salt, lobby.hash))) {
+      return { reason: passcode ? 'Wrong passcode' : 'This lobby needs a passcode', needsPasscode: true };
+    }
+    capacity = Math.min(lobby?.capacity || MAX_PLAYERS, MAX_PLAYERS);
+  } catch (err) {
+    console.error('join check failed', err);
+  }
+  // Seating checks the count again once its own lookups are done
+  return spectate ? null : fullRefusal(rooms.get(roomCode)?.players.size ?? 0, capacity);
+};
+
 io.on('connection', (socket) => {
   console.log(`Client connected ${socket.id}`);
 
-  socket.on('ready', async (name, roomCode = ROOM_ID, userId = null) => {
-    if (!rooms.has(roomCode)) {
-      rooms.set(roomCode, new GameRoom(roomCode));
-      rooms.get(roomCode).io = io;
+  // Any move, pick or chat from a dwarf on autopilot takes their seat back from the bot
+  const reclaimSeat = (roomCode, room) => {
+    if (room.reclaimSeat(socket.data.playerId)) {
+      announceAutopilot(roomCode, room, room.players.get(socket.data.playerId));
+    }
+  };
+
+  socket.on('ready', async ({ name, roomCode = ROOM_ID, clientId = null, sessionToken, resumeToken, passcode, spectate = false } = {}) => {
+    // Accounts are only trusted through a signed session; guests play under their client id
+    const session = verifySession(sessionToken);
+    if (sessionToken && !session) {
+      socket.emit('joinRejected', { roomCode, reason: 'Your session has expired, please log in again', sessionExpired: true });
+      return;
+    }
+    const userId = session?.sub ?? null;
+    // A known resume token reclaims the held seat instead of seating a new dwarf
+    let player = rooms.get(roomCode)?.resumePlayer(socket, resumeToken);
+    if (!player) {
+      const refusal = await joinRefusal(roomCode, { identities: [userId, clientId].filter(Boolean), passcode, spectate });
+      if (refusal) {
+        socket.emit('joinRejected', { roomCode, ...refusal });
+        return;
+      }
+      // Spectators follow every broadcast without taking a seat
+      if (spectate) {
+        const room = rooms.get(roomCode);
+        socket.data.roomCode = roomCode;
+        socket.join(roomCode);
+        socket.emit('welcome', room.spectatorPayload());
+        if (room.phase === 'nuggets') {
+          socket.emit('nuggetDraft', room.nuggetDraftState());
+        }
+        return;
+      }
+      if (!rooms.has(roomCode)) await openRoom(roomCode);
+      const profile = userId
+        ? await get('SELECT avatar_url as avatarUrl, dwarf_color as dwarfColor FROM profiles WHERE user_id = ?', [userId])
+        : null;
+      // Others may have taken the last seats while the lookups ran, so check again with no await before seating
+      const seating = rooms.get(roomCode);
+      const full = fullRefusal(seating.players.size, seating.capacity);
+      if (full) {
+        socket.emit('joinRejected', { roomCode, ...full });
+        return;
+      }
+      player = seating.insertPlayer(socket, name, { userId, clientId, profile });
     }
     const room = rooms.get(roomCode);
-    const player = room.insertPlayer(socket, name);
-    const payload = {
-      playerId: player.id,
-      role: player.role,
-      board: room.board,
-      players: room.serializePlayers(player.id),
-      hand: player.hand,
-      metrics: room.metrics,
-      roomCode,
-    };
-    socket.emit('welcome', payload);
+    socket.data.playerId = player.id;
+    socket.data.roomCode = roomCode;
+    socket.emit('welcome', room.welcomePayload(player));
+    if (room.phase === 'nuggets') {
+      socket.emit('nuggetDraft', room.nuggetDraftState());
+    }
     try {
       await run(
         'INSERT INTO lobbies (code, host_id, name, status, created_at) VALUES (?,?,?,?,?) ON CONFLICT(code) DO UPDATE SET status=excluded.status, host_id=COALESCE(lobbies.host_id, excluded.host_id), name=COALESCE(lobbies.name, excluded.name)',
-        [roomCode, userId || socket.id, name || 'Lobby', 'open', Date.now()],
+        [roomCode, playerIdentity(player), name || 'Lobby', room.phase === 'lobby' ? 'open' : 'playing', Date.now()],
       );
+      publishLobby(roomCode);
     } catch (err) {
       console.error('lobby upsert failed', err);
     }
-    socket.to(roomCode).emit('playerJoined', {
-      id: player.id,
-      name: player.name,
-      role: 'unknown',
-      position: player.position,
-      rotation: player.rotation,
-      connected: true,
-      toolBroken: player.toolBroken,
-      suspicion: room.metrics.suspicionByPlayer[player.id] ?? 0,
-      score: player.score,
-    });
+    socket.to(roomCode).emit('playerJoined', room.snapshotPlayer(player));
     socket.join(roomCode);
+    // Someone coming back to a room whose host is still away takes over
+    announceHost(roomCode, room);
   });
 
   socket.on('playerMove', (position, rotation) => {
     const roomCode = [...socket.rooms].find((r) => rooms.has(r));
     if (!roomCode) return;
     const room = rooms.get(roomCode);
-    room.updatePlayerPose(socket.id, position, rotation);
+    if (!room.players.has(socket.data.playerId)) return;
+    room.updatePlayerPose(socket.data.playerId, position, rotation);
     socket.to(roomCode).emit('playerMoved', {
-      id: socket.id,
+      id: socket.data.playerId,
       position,
       rotation,
     });
@@ -799,24 +1238,11 @@ io.on('connection', (socket) => {
     const roomCode = [...socket.rooms].find((r) => rooms.has(r));
     if (!roomCode) return;
     const room = rooms.get(roomCode);
-    const result = room.placeCard(socket.id, payload);
+    reclaimSeat(roomCode, room);
+    const move = { ...payload, type: 'place' };
+    const result = room.applyMove(socket.data.playerId, move);
     if (result.success) {
-      io.to(roomCode).emit('boardUpdated', room.board);
-      socket.emit('handUpdated', room.players.get(socket.id).hand);
-      io.to(roomCode).emit('metrics', room.metrics);
-      if (result.roundEnded) {
-        io.to(roomCode).emit('players', room.serializePlayers());
-        io.to(roomCode).emit('roundEnded', {
-          team: room.lastWinningTeam ?? room.board.winningTeam,
-          awards: room.lastAwards || {},
-          placerId: room.lastWinnerId,
-          round: room.roundNumber,
-          winners: room.lastWinners || [],
-        });
-        run('UPDATE lobbies SET status = ? WHERE code = ?', ['finished', roomCode]).catch((err) =>
-          console.error('lobby finish update failed', err),
-        );
-      }
+      broadcastMove(roomCode, room, socket.data.playerId, move, result);
     } else {
       socket.emit('newChat', {
         id: uuid(),
@@ -831,11 +1257,11 @@ io.on('connection', (socket) => {
     const roomCode = [...socket.rooms].find((r) => rooms.has(r));
     if (!roomCode) return;
     const room = rooms.get(roomCode);
-    const result = room.triggerRockfall(socket.id, payload.targetTileId);
+    reclaimSeat(roomCode, room);
+    const move = { type: 'rockfall', targetTileId: payload?.targetTileId };
+    const result = room.applyMove(socket.data.playerId, move);
     if (result.success) {
-      io.to(roomCode).emit('boardUpdated', room.board);
-      socket.emit('handUpdated', room.players.get(socket.id).hand);
-      io.to(roomCode).emit('metrics', room.metrics);
+      broadcastMove(roomCode, room, socket.data.playerId, move, result);
     }
   });
 
@@ -843,12 +1269,75 @@ io.on('connection', (socket) => {
     const roomCode = [...socket.rooms].find((r) => rooms.has(r));
     if (!roomCode) return;
     const room = rooms.get(roomCode);
-    const result = room.applyToolEffect(socket.id, payload);
+    reclaimSeat(roomCode, room);
+    const move = { ...payload, type: 'tool' };
+    const result = room.applyMove(socket.data.playerId, move);
     if (result.success) {
-      io.to(roomCode).emit('players', room.serializePlayers());
-      io.to(roomCode).emit('boardUpdated', room.board);
-      socket.emit('handUpdated', room.players.get(socket.id).hand);
-      io.to(roomCode).emit('metrics', room.metrics);
+      broadcastMove(roomCode, room, socket.data.playerId, move, result);
+    } else {
+      socket.emit('newChat', {
+        id: uuid(),
+        from: 'Server',
+        body: result.error,
+        createdAt: Date.now(),
+      });
+    }
+  });
+
+  socket.on('peekGoal', (payload) => {
+    const roomCode = [...socket.rooms].find((r) => rooms.has(r));
+    if (!roomCode) return;
+    const room = rooms.get(roomCode);
+    reclaimSeat(roomCode, room);
+    const move = { ...payload, type: 'map' };
+    const result = room.applyMove(socket.data.playerId, move);
+    if (result.success) {
+      // Only the map holder learns what lies beneath the goal
+      broadcastMove(roomCode, room, socket.data.playerId, move, result);
+    } else {
+      socket.emit('newChat', {
+        id: uuid(),
+        from: 'Server',
+        body: result.error,
+        createdAt: Date.now(),
+      });
+    }
+  });
+
+  socket.on('discardCard', (payload) => {
+    const roomCode = [...socket.rooms].find((r) => rooms.has(r));
+    if (!roomCode) return;
+    const room = rooms.get(roomCode);
+    reclaimSeat(roomCode, room);
+    const move = { type: 'discard', cardInstanceId: payload?.cardInstanceId };
+    const result = room.applyMove(socket.data.playerId, move);
+    if (result.success) {
+      broadcastMove(roomCode, room, socket.data.playerId, move, result);
+    } else {
+      socket.emit('newChat', {
+        id: uuid(),
+        from: 'Server',
+        body: result.error,
+        createdAt: Date.now(),
+      });
+    }
+  });
+
+  socket.on('chooseNugget', (payload) => {
+    const roomCode = [...socket.rooms].find((r) => rooms.has(r));
+    if (!roomCode) return;
+    const room = rooms.get(roomCode);
+    reclaimSeat(roomCode, room);
+    const result = room.chooseNugget(socket.data.playerId, payload?.index);
+    if (result.success) {
+      broadcastNuggetDraft(roomCode, room);
+    } else {
+      socket.emit('newChat', {
+        id: uuid(),
+        from: 'Server',
+        body: result.error,
+        createdAt: Date.now(),
+      });
     }
   });
 
@@ -856,14 +1345,16 @@ io.on('connection', (socket) => {
     const roomCode = [...socket.rooms].find((r) => rooms.has(r));
     if (!roomCode) return;
     const room = rooms.get(roomCode);
-    const player = room.players.get(socket.id);
+    const player = room.players.get(socket.data.playerId);
     if (!player) return;
+    reclaimSeat(roomCode, room);
     const message = {
       id: uuid(),
       from: player.name,
       body: text,
       createdAt: Date.now(),
     };
+    recordMatchAction(room, 'chat', player.id, { body: text });
     io.to(roomCode).emit('newChat', message);
   });
 
@@ -871,54 +1362,179 @@ io.on('connection', (socket) => {
     const roomCode = [...socket.rooms].find((r) => rooms.has(r));
     if (!roomCode) return;
     const room = rooms.get(roomCode);
-    const player = room.players.get(socket.id);
+    const player = room.players.get(socket.data.playerId);
     if (!player) return;
     socket.emit('handUpdated', player.hand);
   });
 
+  // Voice signalling is addressed by player id; route it to whichever socket holds that seat
+  const peerSocket = (playerId) => rooms.get(socket.data.roomCode)?.players.get(playerId)?.socketId;
   socket.on('rtcOffer', ({ to, description }) => {
-    io.to(to).emit('rtcOffer', { from: socket.id, description });
+    const target = peerSocket(to);
+    if (target) io.to(target).emit('rtcOffer', { from: socket.data.playerId, description });
   });
   socket.on('rtcAnswer', ({ to, description }) => {
-    io.to(to).emit('rtcAnswer', { from: socket.id, description });
+    const target = peerSocket(to);
+    if (target) io.to(target).emit('rtcAnswer', { from: socket.data.playerId, description });
   });
   socket.on('rtcCandidate', ({ to, candidate }) => {
-    io.to(to).emit('rtcCandidate', { from: socket.id, candidate });
+    const target = peerSocket(to);
+    if (target) io.to(target).emit('rtcCandidate', { from: socket.data.playerId, candidate });
+  });
+
+  socket.on('startGame', () => {
+    const roomCode = [...socket.rooms].find((r) => rooms.has(r));
+    if (!roomCode) return;
+    const room = rooms.get(roomCode);
+    const result = room.startGame(socket.data.playerId);
+    if (result.success) {
+      broadcastDeal(roomCode, room);
+    } else {
+      socket.emit('newChat', {
+        id: uuid(),
+        from: 'Server',
+        body: result.error,
+        createdAt: Date.now(),
+      });
+    }
   });
 
   socket.on('restart', () => {
     const roomCode = [...socket.rooms].find((r) => rooms.has(r));
     if (!roomCode) return;
     const room = rooms.get(roomCode);
-    room.resetRoom();
-    io.to(roomCode).emit('players', room.serializePlayers());
-    io.to(roomCode).emit('boardUpdated', room.board);
-    io.to(roomCode).emit('metrics', room.metrics);
-    room.players.forEach((player) => {
-      io.to(player.socketId).emit('handUpdated', player.hand);
-    });
-    run('UPDATE lobbies SET status = ? WHERE code = ?', ['open', roomCode]).catch((err) =>
-      console.error('lobby restart update failed', err),
-    );
+    const result = room.restartGame(socket.data.playerId);
+    if (result.success) {
+      broadcastDeal(roomCode, room);
+    } else {
+      socket.emit('newChat', {
+        id: uuid(),
+        from: 'Server',
+        body: result.error,
+        createdAt: Date.now(),
+      });
+    }
   });
 
-  socket.on('disconnect', () => {
+  socket.on('kickPlayer', ({ targetPlayerId } = {}) => {
     const roomCode = [...socket.rooms].find((r) => rooms.has(r));
     if (!roomCode) return;
     const room = rooms.get(roomCode);
-    const wasHost = room.players.has(socket.id) && room.id === roomCode && room.players.size > 0 && socket.id === [...room.players.keys()][0];
-    room.removePlayer(socket.id);
-    socket.to(roomCode).emit('playerLeft', socket.id);
-    io.to(roomCode).emit('metrics', room.metrics);
-    if (room.players.size === 0 || wasHost) {
-      rooms.delete(roomCode);
-      run('DELETE FROM lobbies WHERE code = ?', [roomCode]).catch((err) =>
-        console.error('cleanup lobby failed', err),
-      );
+    const error = room.moderationError(socket.data.playerId, targetPlayerId);
+    if (error) {
+      socket.emit('newChat', {
+        id: uuid(),
+        from: 'Server',
+        body: error,
+        createdAt: Date.now(),
+      });
+      return;
+    }
+    evictPlayer(roomCode, room, targetPlayerId, 'kicked');
+  });
+
+  socket.on('banPlayer', ({ targetPlayerId } = {}) => {
+    const roomCode = [...socket.rooms].find((r) => rooms.has(r));
+    if (!roomCode) return;
+    const room = rooms.get(roomCode);
+    const error = room.moderationError(socket.data.playerId, targetPlayerId);
+    if (error) {
+      socket.emit('newChat', {
+        id: uuid(),
+        from: 'Server',
+        body: error,
+        createdAt: Date.now(),
+      });
+      return;
+    }
+    // Bans follow the account (or the browser's client id) so a new seat can't dodge them
+    const target = room.players.get(targetPlayerId);
+    run('INSERT OR IGNORE INTO lobby_bans (lobby_code, user_id, banned_at) VALUES (?,?,?)', [
+      roomCode,
+      playerIdentity(target),
+      Date.now(),
+    ]).catch((err) => console.error('ban insert failed', err));
+    evictPlayer(roomCode, room, targetPlayerId, 'banned');
+  });
+
+  socket.on('lockLobby', ({ locked } = {}) => {
+    const roomCode = [...socket.rooms].find((r) => rooms.has(r));
+    if (!roomCode) return;
+    const room = rooms.get(roomCode);
+    const result = room.setLocked(socket.data.playerId, locked);
+    if (result.success) {
+      io.to(roomCode).emit('lobbyLocked', room.locked);
+      run('UPDATE lobbies SET locked = ? WHERE code = ?', [room.locked ? 1 : 0, roomCode])
+        .then(() => publishLobby(roomCode))
+        .catch((err) => console.error('lobby lock failed', err));
     } else {
-      run('UPDATE lobbies SET current_count = ? WHERE code = ?', [room.players.size, roomCode]).catch((err) =>
-        console.error('cleanup lobby count failed', err),
-      );
+      socket.emit('newChat', {
+        id: uuid(),
+        from: 'Server',
+        body: result.error,
+        createdAt: Date.now(),
+      });
+    }
+  });
+
+  socket.on('addBot', ({ difficulty = 'normal' } = {}) => {
+    const roomCode = [...socket.rooms].find((r) => rooms.has(r));
+    if (!roomCode) return;
+    const room = rooms.get(roomCode);
+    const result = room.addBot(socket.data.playerId, difficulty);
+    if (result.success) {
+      io.to(roomCode).emit('playerJoined', room.snapshotPlayer(result.player));
+    } else {
+      socket.emit('newChat', {
+        id: uuid(),
+        from: 'Server',
+        body: result.error,
+        createdAt: Date.now(),
+      });
+    }
+  });
+
+  socket.on('removeBot', ({ targetPlayerId } = {}) => {
+    const roomCode = [...socket.rooms].find((r) => rooms.has(r));
+    if (!roomCode) return;
+    const room = rooms.get(roomCode);
+    const error = room.removeBotError(socket.data.playerId, targetPlayerId);
+    if (error) {
+      socket.emit('newChat', {
+        id: uuid(),
+        from: 'Server',
+        body: error,
+        createdAt: Date.now(),
+      });
+      return;
+    }
+    releaseSeat(roomCode, room, targetPlayerId);
+  });
+
+  socket.on('watchLobbies', async () => {
+    socket.join(LOBBY_BROWSER);
+    try {
+      socket.emit('lobbyList', await listPublicLobbies());
+    } catch (err) {
+      console.error('lobby list failed', err);
+    }
+  });
+
+  socket.on('unwatchLobbies', () => {
+    socket.leave(LOBBY_BROWSER);
+  });
+
+  socket.on('disconnect', () => {
+    const { roomCode, playerId } = socket.data;
+    const room = rooms.get(roomCode);
+    const player = room?.players.get(playerId);
+    // A newer socket may already have resumed this seat
+    if (player && player.socketId === socket.id) {
+      room.holdSeat(playerId, () => releaseSeat(roomCode, room, playerId));
+      // A bot keeps their seat playing while the table waits for them to come back
+      room.engageAutopilot(playerId);
+      io.to(roomCode).emit('playerJoined', room.snapshotPlayer(player));
+      announceHost(roomCode, room);
     }
     console.log(`Client disconnected ${socket.id}`);
   });
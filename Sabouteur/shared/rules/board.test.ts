@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { BoardState } from './board';
+import { checkPlacement, createBoard, placePathCard } from './board';
+
+// The start card sits at 3-0 and opens north, east and south
+const dig = (board: BoardState, targetTileId: string, cardKey: string, rotation = 0) => {
+  const placement = checkPlacement(board, cardKey, targetTileId, rotation);
+  if (placement.error !== undefined) throw new Error(placement.error);
+  return placePathCard(board, { targetTileId, cardKey, rotation, connectors: placement.connectors, ownerId: 'p1' });
+};
+
+describe('checkPlacement', () => {
+  it('accepts a tunnel that joins the start card', () => {
+    expect(checkPlacement(createBoard(), 'straight', '3-1', 0)).toEqual({
+      connectors: { north: false, east: true, south: false, west: true },
+    });
+  });
+
+  it('turns the card before matching it', () => {
+    expect(checkPlacement(createBoard(), 'straightLong', '3-1', 0).reason).toBe('mismatch');
+    expect(checkPlacement(createBoard(), 'straightLong', '3-1', 1).error).toBeUndefined();
+  });
+
+  it('refuses cards that are not paths, and tiles that cannot take one', () => {
+    const board = dig(createBoard(), '3-1', 'straight');
+    expect(checkPlacement(board, 'map', '3-2', 0).reason).toBe('not-path');
+    expect(checkPlacement(board, 'straight', '3-0', 0).reason).toBe('invalid-tile');
+    expect(checkPlacement(board, 'straight', '3-8', 0).reason).toBe('invalid-tile');
+    expect(checkPlacement(board, 'straight', '3-1', 0).reason).toBe('occupied');
+  });
+
+  it('needs a neighbouring tunnel to attach to', () => {
+    expect(checkPlacement(createBoard(), 'cross', '0-4', 0).reason).toBe('no-attachment');
+  });
+
+  it('needs the tunnel to lead back to the start', () => {
+    // An island of tunnel nobody can reach from the start
+    const island = placePathCard(createBoard(), {
+      targetTileId: '0-4',
+      cardKey: 'straight',
+      rotation: 0,
+      connectors: { north: false, east: true, south: false, west: true },
+      ownerId: 'p1',
+    });
+    expect(checkPlacement(island, 'straight', '0-5', 0).reason).toBe('unreachable');
+  });
+});
@@ -0,0 +1,283 @@
+import type { PathConnectors, Role } from './cards';
+import { CARD_LIBRARY, rotateConnectors, shuffle } from './cards';
+import type { Random } from './random';
+
+export type TileType = 'empty' | 'start' | 'goal' | 'path' | 'blocked';
+
+export interface BoardTile {
+  id: string;
+  row: number;
+  col: number;
+  tileType: TileType;
+  connectors?: PathConnectors;
+  cardKey?: string;
+  rotation?: number;
+  revealed?: boolean;
+  ownerId?: string;
+}
+
+export interface BoardState {
+  rows: number;
+  columns: number;
+  tiles: BoardTile[];
+  winningTeam?: Role;
+}
+
+export const BOARD_ROWS = 7;
+export const BOARD_COLUMNS = 9;
+export const GOAL_ROWS = [1, 3, 5];
+
+export interface GoalCard {
+  key: string;
+  label: string;
+  gold: boolean;
+  connectors: PathConnectors;
+}
+
+// Face-down target cards: a gold crossroads and two coal cards that bend away.
+export const GOAL_CARDS: Record<string, GoalCard> = {
+  gold: {
+    key: 'gold',
+    label: 'Gold',
+    gold: true,
+    connectors: { north: true, east: true, south: true, west: true },
+  },
+  coalNorth: {
+    key: 'coalNorth',
+    label: 'Coal (bends north)',
+    gold: false,
+    connectors: { north: true, east: false, south: false, west: true },
+  },
+  coalSouth: {
+    key: 'coalSouth',
+    label: 'Coal (bends south)',
+    gold: false,
+    connectors: { north: false, east: false, south: true, west: true },
+  },
+};
+
+export const isGoldGoal = (cardKey?: string) => !!cardKey && !!GOAL_CARDS[cardKey]?.gold;
+
+export const tileId = (row: number, col: number) => `${row}-${col}`;
+
+export const createBoard = (random: Random = Math.random): BoardState => {
+  const goalKeys = shuffle(Object.keys(GOAL_CARDS), random);
+  const tiles: BoardTile[] = [];
+  for (let row = 0; row < BOARD_ROWS; row += 1) {
+    for (let col = 0; col < BOARD_COLUMNS; col += 1) {
+      tiles.push({
+        id: tileId(row, col),
+        row,
+        col,
+        tileType: 'empty',
+        revealed: false,
+      });
+    }
+  }
+  const startTile = tiles.find((tile) => tile.row === Math.floor(BOARD_ROWS / 2) && tile.col === 0)!;
+  Object.assign(startTile, {
+    tileType: 'start',
+    connectors: { north: true, east: true, south: true, west: false },
+    revealed: true,
+  });
+  // Goals stay shapeless until revealed, so face-down cards never constrain a placement
+  GOAL_ROWS.forEach((row, index) => {
+    const goalTile = tiles.find((tile) => tile.row === row && tile.col === BOARD_COLUMNS - 1)!;
+    Object.assign(goalTile, {
+      tileType: 'goal',
+      revealed: false,
+      cardKey: goalKeys[index],
+    });
+  });
+  return {
+    rows: BOARD_ROWS,
+    columns: BOARD_COLUMNS,
+    tiles,
+  };
+};
+
+export const NEIGHBORS: Array<{ key: keyof PathConnectors; dr: number; dc: number; opposite: keyof PathConnectors }> = [
+  { key: 'north', dr: -1, dc: 0, opposite: 'south' },
+  { key: 'south', dr: 1, dc: 0, opposite: 'north' },
+  { key: 'east', dr: 0, dc: 1, opposite: 'west' },
+  { key: 'west', dr: 0, dc: -1, opposite: 'east' },
+];
+
+export const findTile = (board: BoardState, id: string) => board.tiles.find((tile) => tile.id === id);
+
+export const tileAt = (board: BoardState, row: number, col: number) =>
+  board.tiles.find((tile) => tile.row === row && tile.col === col);
+
+const leadsOn = (tile: BoardTile) => !(tile.cardKey && CARD_LIBRARY[tile.cardKey]?.deadEnd);
+
+/**
+ * Walks the tunnel network outwards from the start card. Dead-end cards are
+ * reached but never passed through.
+ */
+export const exploreBoard = (board: BoardState) => {
+  const startTile = board.tiles.find((tile) => tile.tileType === 'start');
+  const visited = new Set<string>();
+  const queue = startTile ? [startTile] : [];
+  let farthestCol = startTile ? startTile.col : 0;
+  while (queue.length) {
+    const tile = queue.shift();
+    if (!tile || !tile.connectors || visited.has(tile.id)) continue;
+    visited.add(tile.id);
+    farthestCol = Math.max(farthestCol, tile.col);
+    if (!leadsOn(tile)) continue;
+    NEIGHBORS.forEach(({ key, dr, dc, opposite }) => {
+      if (!tile.connectors?.[key]) return;
+      const neighbor = tileAt(board, tile.row + dr, tile.col + dc);
+      if (!neighbor || visited.has(neighbor.id) || !neighbor.connectors) return;
+      if (neighbor.connectors[opposite]) {
+        queue.push(neighbor);
+      }
+    });
+  }
+  return {
+    farthestCol,
+    visited,
+  };
+};
+
+/**
+ * Face-down goals touched by an open end of the reachable network, with the
+ * sides of each goal that the tunnel arrives on.
+ */
+export const findReachedGoals = (board: BoardState, reachable: Set<string> = exploreBoard(board).visited) => {
+  const reached = new Map<string, Array<keyof PathConnectors>>();
+  board.tiles.forEach((tile) => {
+    if (!reachable.has(tile.id) || !tile.connectors || !leadsOn(tile)) return;
+    NEIGHBORS.forEach(({ key, dr, dc, opposite }) => {
+      if (!tile.connectors?.[key]) return;
+      const goal = tileAt(board, tile.row + dr, tile.col + dc);
+      if (!goal || goal.tileType !== 'goal' || goal.revealed || !goal.cardKey) return;
+      reached.set(goal.id, [...(reached.get(goal.id) ?? []), opposite]);
+    });
+  });
+  return reached;
+};
+
+/** Turns a goal card upright or upside down, whichever fits the tunnels reaching it. */
+export const orientGoal = (cardKey: string, entrySides: Array<keyof PathConnectors>) => {
+  const base = GOAL_CARDS[cardKey]?.connectors ?? { north: false, east: false, south: false, west: false };
+  const fits = (rotation: number) => {
+    const connectors = rotateConnectors(base, rotation)!;
+    return entrySides.filter((side) => connectors[side]).length;
+  };
+  const rotation = fits(2) > fits(0) ? 2 : 0;
+  return { rotation, connectors: rotateConnectors(base, rotation)! };
+};
+
+export type PlacementIssue =
+  | 'not-path'
+  | 'invalid-tile'
+  | 'occupied'
+  | 'no-attachment'
+  | 'mismatch'
+  | 'unreachable'
+  | 'broken-tools';
+
+export const PLACEMENT_ISSUES: Record<PlacementIssue, string> = {
+  'not-path': 'Not a path card',
+  'invalid-tile': 'Invalid tile',
+  occupied: 'Tile already filled',
+  'no-attachment': 'No neighbouring tunnel to attach to',
+  mismatch: 'Connectors do not match the neighbouring tunnels',
+  unreachable: 'Tunnel must connect back to the start card',
+  'broken-tools': 'Repair your broken tools before digging',
+};
+
+export type PlacementCheck =
+  | { connectors: PathConnectors; error?: undefined; reason?: undefined }
+  | { error: string; reason: PlacementIssue };
+
+const placementIssue = (reason: PlacementIssue): PlacementCheck => ({ error: PLACEMENT_ISSUES[reason], reason });
+
+/**
+ * Validates a path card against the tile it targets: every edge touching a
+ * neighbouring card must agree with it, and at least one must join a tunnel
+ * that leads back to the start. Pass `reachable` to reuse one exploreBoard walk
+ * across many checks.
+ */
+export const checkPlacement = (
+  board: BoardState,
+  cardKey: string,
+  targetTileId: string,
+  rotation: number,
+  reachable: Set<string> = exploreBoard(board).visited,
+): PlacementCheck => {
+  const def = CARD_LIBRARY[cardKey];
+  if (!def || def.category !== 'path') return placementIssue('not-path');
+  const tile = findTile(board, targetTileId);
+  if (!tile || tile.tileType === 'start' || tile.tileType === 'goal') return placementIssue('invalid-tile');
+  if (tile.tileType === 'path') return placementIssue('occupied');
+  const connectors = rotateConnectors(def.connectors, rotation)!;
+  let hasValidAttachment = false;
+  let reachesStart = false;
+  let mismatch = false;
+  NEIGHBORS.forEach(({ key, dr, dc, opposite }) => {
+    const neighbor = tileAt(board, tile.row + dr, tile.col + dc);
+    if (!neighbor || !neighbor.connectors) return;
+    if (connectors[key] && neighbor.connectors[opposite]) {
+      hasValidAttachment = true;
+      if (reachable.has(neighbor.id) && leadsOn(neighbor)) reachesStart = true;
+    } else if (connectors[key] || neighbor.connectors[opposite]) {
+      mismatch = true;
+    }
+  });
+  if (mismatch) return placementIssue('mismatch');
+  if (!hasValidAttachment) return placementIssue('no-attachment');
+  if (!reachesStart) return placementIssue('unreachable');
+  return { connectors };
+};
+
+export const placePathCard = (
+  board: BoardState,
+  placement: { targetTileId: string; cardKey: string; rotation: number; connectors: PathConnectors; ownerId: string },
+): BoardState => ({
+  ...board,
+  tiles: board.tiles.map((tile) =>
+    tile.id === placement.targetTileId
+      ? {
+          ...tile,
+          tileType: 'path',
+          connectors: placement.connectors,
+          cardKey: placement.cardKey,
+          rotation: placement.rotation,
+          revealed: true,
+          ownerId: placement.ownerId,
+        }
+      : tile,
+  ),
+});
+
+export const checkRockfall = (board: BoardState, targetTileId: string) => {
+  const tile = findTile(board, targetTileId);
+  if (!tile || tile.tileType !== 'path') return { error: 'Tile is not a tunnel' };
+  return {};
+};
+
+export const checkMapPeek = (board: BoardState, targetTileId: string) => {
+  const tile = findTile(board, targetTileId);
+  if (!tile || tile.tileType !== 'goal') return { error: 'Maps can only be used on goal cards' };
+  if (tile.revealed) return { error: 'That goal is already revealed' };
+  return { cardKey: tile.cardKey };
+};
+
+/** Strips face-down goal identities so a board can be broadcast without leaking the gold. */
+export const redactBoard = (board: BoardState): BoardState => ({
+  ...board,
+  tiles: board.tiles.map((tile) =>
+    tile.tileType === 'goal' && !tile.revealed ? { ...tile, cardKey: undefined } : tile,
+  ),
+});
+
+export const collapseTile = (board: BoardState, targetTileId: string): BoardState => ({
+  ...board,
+  tiles: board.tiles.map((tile) =>
+    tile.id === targetTileId
+      ? { ...tile, tileType: 'blocked', connectors: undefined, cardKey: undefined, rotation: undefined }
+      : tile,
+  ),
+});
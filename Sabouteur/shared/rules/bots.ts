@@ -0,0 +1,240 @@
+import type { BoardState, BoardTile } from './board';
+import {
+  NEIGHBORS,
+  checkPlacement,
+  collapseTile,
+  exploreBoard,
+  isGoldGoal,
+  placePathCard,
+  tileAt,
+} from './board';
+import type { CardDefinition, CardInstance, Role, Tool } from './cards';
+import { CARD_LIBRARY } from './cards';
+import type { Random } from './random';
+import { canDig, resolveToolEffect } from './tools';
+
+export type BotDifficulty = 'easy' | 'normal' | 'hard';
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = ['easy', 'normal', 'hard'];
+
+export const BOT_NAMES = ['Durin', 'Balin', 'Dwalin', 'Oin', 'Gloin', 'Bifur', 'Bofur', 'Bombur', 'Nori', 'Ori'];
+
+/** A turn as a bot decides to play it, shaped like the payloads human clients send. */
+export type BotMove =
+  | { type: 'place'; cardInstanceId: string; targetTileId: string; rotation: number }
+  | { type: 'rockfall'; targetTileId: string }
+  | { type: 'tool'; cardKey: string; targetPlayerId: string; tool?: Tool }
+  | { type: 'map'; cardInstanceId: string; targetTileId: string }
+  | { type: 'discard'; cardInstanceId: string };
+
+/** What a bot may look at when choosing a move: only what a human in its seat could see. */
+export interface BotView {
+  selfId: string;
+  role: Role;
+  hand: CardInstance[];
+  /** The public board, with face-down goals redacted. */
+  board: BoardState;
+  peekedGoals: Record<string, string>;
+  /** `suspicion` is the table's public reading, built only from the moves everyone has watched. */
+  players: Array<{ id: string; brokenTools: Tool[]; gold: number; suspicion: number }>;
+  difficulty: BotDifficulty;
+}
+
+// blunder: chance of a random legal move instead of the best one; rockfallRange: how close
+// (in steps) the tunnel may get to a goal before a saboteur starts collapsing it
+const BOT_SKILL: Record<BotDifficulty, { blunder: number; usesMaps: boolean; rockfallRange: number }> = {
+  easy: { blunder: 0.35, usesMaps: false, rockfallRange: 2 },
+  normal: { blunder: 0.1, usesMaps: true, rockfallRange: 3 },
+  hard: { blunder: 0, usesMaps: true, rockfallRange: 4 },
+};
+
+// Cards only ever go down upright or turned half way round
+const ROTATIONS = [0, 2];
+
+// Everyone starts at zero, so this is about one rockfall or broken tool that later digging hasn't made up for
+const SUSPICIOUS = 0.1;
+
+const isDeadEnd = (tile: BoardTile) => !!(tile.cardKey && CARD_LIBRARY[tile.cardKey]?.deadEnd);
+
+const openTile = (tile?: BoardTile) =>
+  !!tile && (tile.tileType === 'empty' || tile.tileType === 'blocked' || (tile.tileType === 'goal' && !tile.revealed));
+
+/** Goals still worth digging for: the gold once a map has shown it, else every face-down goal not known to be coal. */
+const targetGoals = (board: BoardState, peekedGoals: Record<string, string>) => {
+  const hidden = board.tiles.filter((tile) => tile.tileType === 'goal' && !tile.revealed);
+  const gold = hidden.find((tile) => isGoldGoal(peekedGoals[tile.id]));
+  if (gold) return [gold];
+  const unknown = hidden.filter((tile) => !peekedGoals[tile.id]);
+  return unknown.length ? unknown : hidden;
+};
+
+/**
+ * Steps between the nearest open end of the tunnel network and the closest
+ * target goal. Infinity once every tunnel is sealed off.
+ */
+const tunnelDistance = (board: BoardState, targets: BoardTile[]) => {
+  const { visited } = exploreBoard(board);
+  let best = Infinity;
+  board.tiles.forEach((tile) => {
+    if (!visited.has(tile.id) || isDeadEnd(tile)) return;
+    NEIGHBORS.forEach(({ key, dr, dc }) => {
+      if (!tile.connectors?.[key]) return;
+      const next = tileAt(board, tile.row + dr, tile.col + dc);
+      if (!next || !openTile(next)) return;
+      targets.forEach((goal) => {
+        best = Math.min(best, Math.abs(goal.row - next.row) + Math.abs(goal.col - next.col));
+      });
+    });
+  });
+  return best;
+};
+
+type Placement = { card: CardInstance; targetTileId: string; rotation: number; distance: number };
+
+// Every legal placement in hand, scored by how close it leaves the tunnel to the targets
+const scorePlacements = (board: BoardState, hand: CardInstance[], targets: BoardTile[]) => {
+  const reachable = exploreBoard(board).visited;
+  const tried = new Set<string>();
+  const placements: Placement[] = [];
+  hand.forEach((card) => {
+    if (CARD_LIBRARY[card.cardKey]?.category !== 'path' || tried.has(card.cardKey)) return;
+    tried.add(card.cardKey);
+    board.tiles.forEach((tile) => {
+      if (tile.tileType !== 'empty' && tile.tileType !== 'blocked') return;
+      ROTATIONS.forEach((rotation) => {
+        const check = checkPlacement(board, card.cardKey, tile.id, rotation, reachable);
+        if (check.error !== undefined) return;
+        const next = placePathCard(board, {
+          targetTileId: tile.id,
+          cardKey: card.cardKey,
+          rotation,
+          connectors: check.connectors,
+          ownerId: '',
+        });
+        placements.push({ card, targetTileId: tile.id, rotation, distance: tunnelDistance(next, targets) });
+      });
+    });
+  });
+  return placements;
+};
+
+const placeMove = ({ card, targetTileId, rotation }: Placement): BotMove => ({
+  type: 'place',
+  cardInstanceId: card.instanceId,
+  targetTileId,
+  rotation,
+});
+
+// How much a bot wants to keep a card; the lowest is thrown away when it has nothing better to do
+const keepValue = (def: CardDefinition, role: Role) => {
+  if (role === 'saboteur') {
+    if (def.category === 'rockfall') return 5;
+    if (def.deadEnd) return 4;
+    return { break: 3, path: 2, repair: 1, map: 0 }[def.category];
+  }
+  if (def.deadEnd) return 0;
+  return { rockfall: 1, break: 2, map: 3, path: 4, repair: 5 }[def.category];
+};
+
+const discardMove = (hand: CardInstance[], role: Role): BotMove => {
+  const value = (card: CardInstance) => keepValue(CARD_LIBRARY[card.cardKey], role);
+  const [card] = [...hand].sort((a, b) => value(a) - value(b));
+  return { type: 'discard', cardInstanceId: card.instanceId };
+};
+
+// The first tool card in hand that legally applies to any of the given players, in their order
+const toolMove = (
+  hand: CardInstance[],
+  category: 'break' | 'repair',
+  targets: BotView['players'],
+): BotMove | undefined => {
+  const cards = hand.filter((card) => CARD_LIBRARY[card.cardKey]?.category === category);
+  for (const target of targets) {
+    const card = cards.find((c) => !resolveToolEffect(c.cardKey, target.brokenTools).error);
+    if (card) return { type: 'tool', cardKey: card.cardKey, targetPlayerId: target.id };
+  }
+  return undefined;
+};
+
+const minerMove = (view: BotView, targets: BoardTile[], placements: Placement[]): BotMove => {
+  const { board, hand, selfId, players, peekedGoals } = view;
+  const self = players.find((player) => player.id === selfId);
+  const repairSelf = self && toolMove(hand, 'repair', [self]);
+  if (repairSelf) return repairSelf;
+
+  const current = tunnelDistance(board, targets);
+  const best = [...placements].sort((a, b) => a.distance - b.distance)[0];
+  if (best && best.distance < current) return placeMove(best);
+
+  // Worth a map while the gold is still a guess between several goals
+  const map = hand.find((card) => CARD_LIBRARY[card.cardKey]?.category === 'map');
+  const unseen = targets.filter((goal) => !peekedGoals[goal.id]);
+  if (map && BOT_SKILL[view.difficulty].usesMaps && targets.length > 1 && unseen.length) {
+    const [goal] = unseen.sort((a, b) => tunnelDistance(board, [a]) - tunnelDistance(board, [b]));
+    return { type: 'map', cardInstanceId: map.instanceId, targetTileId: goal.id };
+  }
+
+  const others = players.filter((player) => player.id !== selfId);
+  const trusted = others.filter((player) => player.suspicion < SUSPICIOUS).sort((a, b) => a.suspicion - b.suspicion);
+  const repair = toolMove(hand, 'repair', trusted);
+  if (repair) return repair;
+  const suspects = others.filter((player) => player.suspicion >= SUSPICIOUS).sort((a, b) => b.suspicion - a.suspicion);
+  const sabotage = toolMove(hand, 'break', suspects);
+  if (sabotage) return sabotage;
+
+  return discardMove(hand, 'miner');
+};
+
+const saboteurMove = (view: BotView, targets: BoardTile[], placements: Placement[]): BotMove => {
+  const { board, hand, selfId, players } = view;
+  const current = tunnelDistance(board, targets);
+
+  // Collapse whichever tunnel tile sets the miners back furthest once they get close
+  const rockfall = hand.some((card) => card.cardKey === 'rockfall');
+  if (rockfall && current <= BOT_SKILL[view.difficulty].rockfallRange) {
+    const { visited } = exploreBoard(board);
+    const [key] = board.tiles
+      .filter((tile) => tile.tileType === 'path' && visited.has(tile.id))
+      .map((tile) => ({ tile, distance: tunnelDistance(collapseTile(board, tile.id), targets) }))
+      .sort((a, b) => b.distance - a.distance);
+    if (key && key.distance > current) return { type: 'rockfall', targetTileId: key.tile.id };
+  }
+
+  const worst = [...placements].sort((a, b) => b.distance - a.distance)[0];
+  if (worst && worst.distance > current) return placeMove(worst);
+
+  // The richest, least suspected dwarves are the likeliest miners; stop the ones still digging first
+  const leaders = players
+    .filter((player) => player.id !== selfId)
+    .sort((a, b) => b.gold - a.gold || a.suspicion - b.suspicion || a.brokenTools.length - b.brokenTools.length);
+  const sabotage = toolMove(hand, 'break', leaders);
+  if (sabotage) return sabotage;
+
+  const self = players.find((player) => player.id === selfId);
+  const repairSelf = self && toolMove(hand, 'repair', [self]);
+  if (repairSelf) return repairSelf;
+
+  // A harmless card keeps up appearances
+  if (worst && worst.distance === current) return placeMove(worst);
+  return discardMove(hand, 'saboteur');
+};
+
+/**
+ * Picks a computer player's move for its turn: miners push the tunnel towards
+ * the goals, saboteurs seal it with dead ends, rockfalls and broken tools.
+ * Returns undefined for an empty hand.
+ */
+export const chooseBotMove = (view: BotView, random: Random = Math.random): BotMove | undefined => {
+  const { board, hand, role, selfId, players, peekedGoals } = view;
+  if (!hand.length) return undefined;
+  const self = players.find((player) => player.id === selfId);
+  const targets = targetGoals(board, peekedGoals);
+  const placements = canDig(self?.brokenTools ?? []) ? scorePlacements(board, hand, targets) : [];
+
+  if (random() < BOT_SKILL[view.difficulty].blunder) {
+    const discards = hand.map((card): BotMove => ({ type: 'discard', cardInstanceId: card.instanceId }));
+    const moves = [...placements.map(placeMove), ...discards];
+    return moves[Math.floor(random() * moves.length)];
+  }
+  return role === 'saboteur' ? saboteurMove(view, targets, placements) : minerMove(view, targets, placements);
+};
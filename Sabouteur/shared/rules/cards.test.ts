@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { DECK_TEMPLATE, generateDeck } from './cards';
+import { mulberry32 } from './random';
+
+describe('generateDeck', () => {
+  it('deals every card in the template once', () => {
+    const deck = generateDeck(mulberry32(1));
+    expect(deck).toHaveLength(DECK_TEMPLATE.reduce((sum, entry) => sum + entry.quantity, 0));
+    DECK_TEMPLATE.forEach(({ key, quantity }) => {
+      expect(deck.filter((card) => card.cardKey === key)).toHaveLength(quantity);
+    });
+    expect(new Set(deck.map((card) => card.instanceId)).size).toBe(deck.length);
+  });
+
+  it('deals the same deck, ids and all, from the same seed', () => {
+    expect(generateDeck(mulberry32(42))).toEqual(generateDeck(mulberry32(42)));
+  });
+
+  it('deals a different order from a different seed', () => {
+    const keys = (seed: number) => generateDeck(mulberry32(seed)).map((card) => card.cardKey);
+    expect(keys(42)).not.toEqual(keys(43));
+  });
+});
@@ -0,0 +1,252 @@
+import type { Random } from './random';
+
+export type Role = 'miner' | 'saboteur';
+
+export type CardCategory = 'path' | 'rockfall' | 'repair' | 'break' | 'map';
+
+export type Tool = 'pick' | 'lantern' | 'cart';
+
+export const TOOLS: Tool[] = ['pick', 'lantern', 'cart'];
+
+export interface PathConnectors {
+  north: boolean;
+  east: boolean;
+  south: boolean;
+  west: boolean;
+}
+
+export interface CardDefinition {
+  key: string;
+  label: string;
+  description: string;
+  category: CardCategory;
+  connectors?: PathConnectors;
+  /** Tools a break card smashes (always one) or a repair card can mend (one or two). */
+  tools?: Tool[];
+  /** The tunnel stops inside this card: it joins its neighbours but never leads on. */
+  deadEnd?: boolean;
+  sabotageWeight?: number;
+}
+
+export interface CardInstance {
+  instanceId: string;
+  cardKey: string;
+  rotation: number;
+}
+
+export const CARD_LIBRARY: Record<string, CardDefinition> = {
+  straight: {
+    key: 'straight',
+    label: 'Tunnel EW',
+    description: 'Extends the tunnel east–west.',
+    category: 'path',
+    connectors: { north: false, east: true, south: false, west: true },
+  },
+  straightLong: {
+    key: 'straightLong',
+    label: 'Tunnel NS',
+    description: 'Extends the tunnel north–south.',
+    category: 'path',
+    connectors: { north: true, east: false, south: true, west: false },
+  },
+  straightBranchNorth: {
+    key: 'straightBranchNorth',
+    label: 'Side Spur N',
+    description: 'Straight with a branch north.',
+    category: 'path',
+    connectors: { north: true, east: true, south: false, west: true },
+  },
+  straightBranchSouth: {
+    key: 'straightBranchSouth',
+    label: 'Side Spur S',
+    description: 'Straight with a branch south.',
+    category: 'path',
+    connectors: { north: false, east: true, south: true, west: true },
+  },
+  turn: {
+    key: 'turn',
+    label: 'Bend',
+    description: 'Turns the tunnel 90 degrees.',
+    category: 'path',
+    connectors: { north: true, east: true, south: false, west: false },
+  },
+  tee: {
+    key: 'tee',
+    label: 'T-Junction',
+    description: 'Opens to three directions.',
+    category: 'path',
+    connectors: { north: true, east: true, south: true, west: false },
+  },
+  cross: {
+    key: 'cross',
+    label: 'Crossroad',
+    description: 'Connects every direction.',
+    category: 'path',
+    connectors: { north: true, east: true, south: true, west: true },
+  },
+  deadendEast: {
+    key: 'deadendEast',
+    label: 'Dead End E',
+    description: 'Dead end pointing east.',
+    category: 'path',
+    connectors: { north: false, east: true, south: false, west: false },
+    deadEnd: true,
+    sabotageWeight: 0.6,
+  },
+  deadendNorth: {
+    key: 'deadendNorth',
+    label: 'Dead End N',
+    description: 'Dead end pointing north.',
+    category: 'path',
+    connectors: { north: true, east: false, south: false, west: false },
+    deadEnd: true,
+    sabotageWeight: 0.6,
+  },
+  rockfall: {
+    key: 'rockfall',
+    label: 'Rockfall',
+    description: 'Remove a tunnel tile from the board.',
+    category: 'rockfall',
+    sabotageWeight: 0.35,
+  },
+  breakPick: {
+    key: 'breakPick',
+    label: 'Broken Pick',
+    description: "Breaks another dwarf's pickaxe.",
+    category: 'break',
+    tools: ['pick'],
+    sabotageWeight: 0.8,
+  },
+  breakLantern: {
+    key: 'breakLantern',
+    label: 'Broken Lantern',
+    description: "Breaks another dwarf's lantern.",
+    category: 'break',
+    tools: ['lantern'],
+    sabotageWeight: 0.8,
+  },
+  breakCart: {
+    key: 'breakCart',
+    label: 'Broken Cart',
+    description: "Breaks another dwarf's mine cart.",
+    category: 'break',
+    tools: ['cart'],
+    sabotageWeight: 0.8,
+  },
+  repairPick: {
+    key: 'repairPick',
+    label: 'Repair Pick',
+    description: 'Fixes a broken pickaxe.',
+    category: 'repair',
+    tools: ['pick'],
+  },
+  repairLantern: {
+    key: 'repairLantern',
+    label: 'Repair Lantern',
+    description: 'Fixes a broken lantern.',
+    category: 'repair',
+    tools: ['lantern'],
+  },
+  repairCart: {
+    key: 'repairCart',
+    label: 'Repair Cart',
+    description: 'Fixes a broken mine cart.',
+    category: 'repair',
+    tools: ['cart'],
+  },
+  repairPickLantern: {
+    key: 'repairPickLantern',
+    label: 'Repair Pick/Lantern',
+    description: 'Fixes either a pickaxe or a lantern.',
+    category: 'repair',
+    tools: ['pick', 'lantern'],
+  },
+  repairPickCart: {
+    key: 'repairPickCart',
+    label: 'Repair Pick/Cart',
+    description: 'Fixes either a pickaxe or a mine cart.',
+    category: 'repair',
+    tools: ['pick', 'cart'],
+  },
+  repairLanternCart: {
+    key: 'repairLanternCart',
+    label: 'Repair Lantern/Cart',
+    description: 'Fixes either a lantern or a mine cart.',
+    category: 'repair',
+    tools: ['lantern', 'cart'],
+  },
+  map: {
+    key: 'map',
+    label: 'Map',
+    description: 'Secretly look at one goal card.',
+    category: 'map',
+  },
+};
+
+// Total path cards = 44 across varied shapes
+export const DECK_TEMPLATE: Array<{ key: keyof typeof CARD_LIBRARY; quantity: number }> = [
+  { key: 'straight', quantity: 6 },
+  { key: 'straightLong', quantity: 6 },
+  { key: 'straightBranchNorth', quantity: 3 },
+  { key: 'straightBranchSouth', quantity: 3 },
+  { key: 'turn', quantity: 8 },
+  { key: 'tee', quantity: 6 },
+  { key: 'cross', quantity: 4 },
+  { key: 'deadendEast', quantity: 4 },
+  { key: 'deadendNorth', quantity: 4 },
+  { key: 'rockfall', quantity: 5 },
+  { key: 'breakPick', quantity: 3 },
+  { key: 'breakLantern', quantity: 3 },
+  { key: 'breakCart', quantity: 3 },
+  { key: 'repairPick', quantity: 2 },
+  { key: 'repairLantern', quantity: 2 },
+  { key: 'repairCart', quantity: 2 },
+  { key: 'repairPickLantern', quantity: 1 },
+  { key: 'repairPickCart', quantity: 1 },
+  { key: 'repairLanternCart', quantity: 1 },
+  { key: 'map', quantity: 6 },
+];
+
+export const shuffle = <T>(items: T[], random: Random = Math.random): T[] => {
+  // Fisher-Yates shuffle
+  for (let i = items.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
+export const generateDeck = (random: Random = Math.random): CardInstance[] => {
+  const keys: string[] = [];
+  DECK_TEMPLATE.forEach((entry) => {
+    for (let i = 0; i < entry.quantity; i += 1) {
+      keys.push(entry.key);
+    }
+  });
+  // Instance ids are handed out after shuffling so they never hint at the card behind them
+  return shuffle(keys, random).map((cardKey, idx) => ({
+    instanceId: `${idx}-${random().toString(36).slice(2, 10)}`,
+    cardKey,
+    rotation: 0,
+  }));
+};
+
+export const rotateConnectors = (connectors: PathConnectors | undefined, rotation: number): PathConnectors | undefined => {
+  if (!connectors) return undefined;
+  const steps = ((rotation % 4) + 4) % 4;
+  let current = { ...connectors };
+  for (let i = 0; i < steps; i += 1) {
+    current = {
+      north: current.west,
+      east: current.north,
+      south: current.east,
+      west: current.south,
+    };
+  }
+  return current;
+};
+
+export const isToolCard = (cardKey: string) => {
+  const category = CARD_LIBRARY[cardKey]?.category;
+  return category === 'break' || category === 'repair';
+};
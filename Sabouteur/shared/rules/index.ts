@@ -0,0 +1,8 @@
+export * from './cards';
+export * from './roles';
+export * from './board';
+export * from './tools';
+export * from './scoring';
+export * from './bots';
+export * from './random';
+export * from './table';
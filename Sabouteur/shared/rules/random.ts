@@ -0,0 +1,31 @@
+/** A source of numbers in [0, 1), like Math.random. */
+export type Random = () => number;
+
+export const MAX_SEED = 2 ** 32 - 1;
+
+export const isSeed = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_SEED;
+
+export const randomSeed = () => Math.floor(Math.random() * (MAX_SEED + 1));
+
+/**
+ * Mulberry32: a small, fast 32-bit generator. The same seed always yields the
+ * same sequence, so a game dealt from it can be dealt again exactly.
+ */
+export const mulberry32 = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Mixes `seed` and `index` into a new seed, so one seed can stand for a whole
+ * family of unrelated ones: a lobby's games in order, or the streams of a game.
+ */
+export const deriveSeed = (seed: number, index: number) =>
+  Math.floor(mulberry32((seed ^ Math.imul(index + 1, 0x9e3779b9)) >>> 0)() * (MAX_SEED + 1));
@@ -0,0 +1,39 @@
+import type { Role } from './cards';
+import { shuffle } from './cards';
+import type { Random } from './random';
+
+// Saboteurs per table size, following the board game's role card split (3-10 players).
+const SABOTEURS_BY_PLAYER_COUNT: Record<number, number> = {
+  3: 1,
+  4: 1,
+  5: 2,
+  6: 2,
+  7: 3,
+  8: 3,
+  9: 3,
+  10: 4,
+};
+
+export const saboteurCount = (playerCount: number) => {
+  if (playerCount <= 0) return 0;
+  if (playerCount < 3) return 1;
+  return SABOTEURS_BY_PLAYER_COUNT[Math.min(10, playerCount)];
+};
+
+export const roleDistribution = (playerCount: number, random: Random = Math.random): Role[] => {
+  const saboteurs = saboteurCount(playerCount);
+  const roles: Role[] = Array(playerCount)
+    .fill('miner')
+    .map((_, idx) => (idx < saboteurs ? 'saboteur' : 'miner'));
+  return shuffle(roles, random);
+};
+
+export const MIN_PLAYERS = 3;
+export const MAX_PLAYERS = 10;
+
+// Starting hand per table size: 6 cards for 3-5 dwarves, 5 for 6-7, 4 for 8-10.
+export const handSize = (playerCount: number) => {
+  if (playerCount <= 5) return 6;
+  if (playerCount <= 7) return 5;
+  return 4;
+};
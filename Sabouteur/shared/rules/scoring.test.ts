@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import type { BoardState } from './board';
+import { createBoard, findTile, placePathCard } from './board';
+import { nuggetPickOrder, revealReachedGoals, saboteursWin } from './scoring';
+
+const EAST_WEST = { north: false, east: true, south: false, west: true };
+
+// A board whose middle goal is `goalKey`, tunnelled straight east from the start up to `lastCol`
+const tunnelTo = (lastCol: number, goalKey: string): BoardState => {
+  let board = createBoard();
+  board = {
+    ...board,
+    tiles: board.tiles.map((tile) => (tile.id === '3-8' ? { ...tile, cardKey: goalKey } : tile)),
+  };
+  for (let col = 1; col <= lastCol; col += 1) {
+    board = placePathCard(board, {
+      targetTileId: `3-${col}`,
+      cardKey: 'straight',
+      rotation: 0,
+      connectors: EAST_WEST,
+      ownerId: 'p1',
+    });
+  }
+  return board;
+};
+
+describe('revealReachedGoals', () => {
+  it('leaves goals face down until a tunnel touches them', () => {
+    const { board, progress } = revealReachedGoals(tunnelTo(6, 'gold'));
+    expect(findTile(board, '3-8')?.revealed).toBe(false);
+    expect(board.winningTeam).toBeUndefined();
+    expect(progress).toBe(6 / 8);
+  });
+
+  it('hands the round to the miners once the gold is reached', () => {
+    const { board, progress } = revealReachedGoals(tunnelTo(7, 'gold'));
+    expect(findTile(board, '3-8')?.revealed).toBe(true);
+    expect(board.winningTeam).toBe('miner');
+    expect(progress).toBe(1);
+  });
+
+  it('flips coal without ending the round, turned to fit the tunnel', () => {
+    const { board } = revealReachedGoals(tunnelTo(7, 'coalNorth'));
+    const goal = findTile(board, '3-8');
+    expect(goal?.revealed).toBe(true);
+    expect(goal?.connectors?.west).toBe(true);
+    expect(board.winningTeam).toBeUndefined();
+  });
+});
+
+describe('nuggetPickOrder', () => {
+  const players = [
+    { id: 'a', role: 'miner' as const },
+    { id: 'b', role: 'miner' as const },
+    { id: 'c', role: 'saboteur' as const },
+    { id: 'd', role: 'miner' as const },
+  ];
+
+  it('starts with the miner who broke through, then goes backwards around the table', () => {
+    expect(nuggetPickOrder({ players, placerId: 'b', cardCount: 4 })).toEqual(['b', 'a', 'd', 'b']);
+  });
+
+  it('skips saboteurs and wraps until every card is taken', () => {
+    expect(nuggetPickOrder({ players, placerId: 'd', cardCount: 5 })).toEqual(['d', 'b', 'a', 'd', 'b']);
+  });
+
+  it("passes a saboteur's breakthrough to the first miner after them", () => {
+    const seats = [players[0], players[2], players[1], players[3]];
+    expect(nuggetPickOrder({ players: seats, placerId: 'c', cardCount: 3 })).toEqual(['b', 'a', 'd']);
+  });
+
+  it('gives no cards out without miners', () => {
+    expect(nuggetPickOrder({ players: [{ id: 'c', role: 'saboteur' }], placerId: 'c', cardCount: 3 })).toEqual([]);
+  });
+});
+
+describe('saboteursWin', () => {
+  it('waits until the deck and every hand are spent', () => {
+    const board = createBoard();
+    expect(saboteursWin(board, 0, 0)).toBe(true);
+    expect(saboteursWin(board, 1, 0)).toBe(false);
+    expect(saboteursWin(board, 0, 2)).toBe(false);
+  });
+
+  it('never overturns a round the miners already won', () => {
+    expect(saboteursWin({ ...createBoard(), winningTeam: 'miner' }, 0, 0)).toBe(false);
+  });
+});
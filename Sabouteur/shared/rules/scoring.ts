@@ -0,0 +1,113 @@
+import type { BoardState } from './board';
+import { BOARD_COLUMNS, exploreBoard, findReachedGoals, isGoldGoal, orientGoal } from './board';
+import type { Role } from './cards';
+import { shuffle } from './cards';
+import type { Random } from './random';
+
+/**
+ * Flips every goal the tunnel network touches, turned to fit the tunnel, and
+ * reports how far the tunnel has pushed towards the goal column. Reaching gold
+ * hands miners the round; a revealed coal card carries the tunnel on like a path.
+ */
+export const revealReachedGoals = (board: BoardState) => {
+  let winningTeam = board.winningTeam;
+  let current = board;
+  // A flipped coal card can open the way onto another goal, so repeat until nothing new turns over
+  for (let reached = findReachedGoals(current); reached.size; reached = findReachedGoals(current)) {
+    current = {
+      ...current,
+      tiles: current.tiles.map((tile) => {
+        const entrySides = reached.get(tile.id);
+        if (!entrySides || !tile.cardKey) return tile;
+        if (isGoldGoal(tile.cardKey)) winningTeam = 'miner';
+        return { ...tile, ...orientGoal(tile.cardKey, entrySides), revealed: true };
+      }),
+    };
+  }
+  const { farthestCol } = exploreBoard(current);
+  return {
+    board: { ...current, winningTeam },
+    progress: farthestCol / (BOARD_COLUMNS - 1),
+  };
+};
+
+export const ROUNDS_PER_GAME = 3;
+
+// The gold supply for a whole game: 16 single, 8 double and 4 triple nuggets.
+export const NUGGET_TEMPLATE: Array<{ value: number; quantity: number }> = [
+  { value: 1, quantity: 16 },
+  { value: 2, quantity: 8 },
+  { value: 3, quantity: 4 },
+];
+
+export const createNuggetSupply = (random: Random = Math.random): number[] =>
+  shuffle(NUGGET_TEMPLATE.flatMap((entry) => Array<number>(entry.quantity).fill(entry.value)), random);
+
+/**
+ * Order in which winning miners take nugget cards: the dwarf who broke
+ * through first, then backwards around the table, wrapping until every card is gone.
+ * When a saboteur's card reached the gold, the first miner after them in seat order starts.
+ */
+export const nuggetPickOrder = ({
+  players,
+  placerId,
+  cardCount,
+}: {
+  players: Array<{ id: string; role: Role }>;
+  placerId?: string;
+  cardCount: number;
+}) => {
+  const miners = players.filter((p) => p.role === 'miner').reverse();
+  if (!miners.length) return [];
+  const seat = Math.max(0, players.findIndex((p) => p.id === placerId));
+  const first = [...players.slice(seat), ...players.slice(0, seat)].find((p) => p.role === 'miner')!;
+  const startIdx = miners.indexOf(first);
+  return Array.from({ length: cardCount }, (_, idx) => miners[(startIdx + idx) % miners.length].id);
+};
+
+/** Saboteurs take the round once the deck is spent and every dwarf has played out their hand. */
+export const saboteursWin = (board: BoardState, deckRemaining: number, cardsInHands: number) =>
+  !board.winningTeam && deckRemaining === 0 && cardsInHands === 0;
+
+export const saboteurAward = (saboteurs: number) => {
+  if (saboteurs === 1) return 4;
+  if (saboteurs === 2 || saboteurs === 3) return 3;
+  return 2;
+};
+
+/**
+ * Splits the round's gold. Miners keep the nugget cards they picked;
+ * saboteurs each receive a flat award.
+ */
+export const scoreRound = ({
+  winningTeam,
+  players,
+  nuggetPicks,
+}: {
+  winningTeam?: Role;
+  players: Array<{ id: string; role: Role }>;
+  nuggetPicks: Array<{ playerId: string; value: number }>;
+}) => {
+  const awards: Record<string, number> = {};
+  let winners: string[] = [];
+  if (winningTeam === 'miner') {
+    nuggetPicks.forEach(({ playerId, value }) => {
+      awards[playerId] = (awards[playerId] || 0) + value;
+    });
+    winners = players.filter((p) => p.role === 'miner').map((p) => p.id);
+  } else if (winningTeam === 'saboteur') {
+    const sabos = players.filter((p) => p.role === 'saboteur');
+    const award = saboteurAward(sabos.length);
+    sabos.forEach((s) => {
+      awards[s.id] = (awards[s.id] || 0) + award;
+    });
+    winners = sabos.map((p) => p.id);
+  }
+  return { awards, winners };
+};
+
+/** Everyone tied on the most gold once the last round is scored. */
+export const overallWinners = (goldByPlayer: Record<string, number>, playerIds: string[]) => {
+  const best = Math.max(0, ...playerIds.map((id) => goldByPlayer[id] ?? 0));
+  return playerIds.filter((id) => (goldByPlayer[id] ?? 0) === best);
+};
@@ -0,0 +1,537 @@
+import type { BoardState } from './board';
+import { checkMapPeek, checkPlacement, checkRockfall, collapseTile, createBoard, placePathCard, redactBoard } from './board';
+import type { BotDifficulty, BotMove } from './bots';
+import { chooseBotMove } from './bots';
+import type { CardInstance, Role, Tool } from './cards';
+import { CARD_LIBRARY, generateDeck } from './cards';
+import type { Random } from './random';
+import { deriveSeed, mulberry32, randomSeed } from './random';
+import { handSize, roleDistribution } from './roles';
+import {
+  ROUNDS_PER_GAME,
+  createNuggetSupply,
+  nuggetPickOrder,
+  overallWinners,
+  revealReachedGoals,
+  saboteursWin,
+  scoreRound,
+} from './scoring';
+import { canDig, resolveToolEffect } from './tools';
+
+// 'lobby' until the host starts, 'playing' while a round runs, 'nuggets' while
+// miners pick their gold, 'roundOver' between rounds, 'gameOver' after the last round
+export type GamePhase = 'lobby' | 'playing' | 'nuggets' | 'roundOver' | 'gameOver';
+
+/** The public state of the table that every client is sent after each change. */
+export interface VisualizationMetrics {
+  deckRemaining: number;
+  progress: number;
+  collapsedTiles: number;
+  suspicionByPlayer: Record<string, number>;
+  turnsTaken: number;
+  goldByPlayer: Record<string, number>;
+  round: number;
+  phase: GamePhase;
+  efficiencyByPlayer: Record<string, number>;
+  activePlayerId?: string;
+  turnEndsAt?: number;
+}
+
+/** A seat as the rules see it; each kind of table keeps whatever else it needs alongside. */
+export interface TablePlayer {
+  id: string;
+  name: string;
+  /** Difficulty of a computer player; humans have none. */
+  bot?: BotDifficulty | null;
+  /** Dealt when a round starts. */
+  role?: Role | null;
+  hand: CardInstance[];
+  brokenTools: Tool[];
+  peekedGoals: Record<string, string>;
+  score: number;
+}
+
+export type MoveResult =
+  | { success: true; roundEnded: boolean; tileId?: string; cardKey?: string; error?: undefined }
+  | { error: string; success?: undefined };
+
+export type NuggetDraft = {
+  cards: number[];
+  order: string[];
+  picks: Array<{ playerId: string; value: number }>;
+  /** When the current pick is made for the miner, if there is a clock on it. */
+  endsAt?: number;
+};
+
+const freshMetrics = (goldByPlayer: Record<string, number>, round: number, phase: GamePhase): VisualizationMetrics => ({
+  deckRemaining: 0,
+  progress: 0,
+  collapsedTiles: 0,
+  suspicionByPlayer: {},
+  turnsTaken: 0,
+  goldByPlayer,
+  round,
+  phase,
+  efficiencyByPlayer: {},
+});
+
+/**
+ * A game of Saboteur from the first deal to the final standings: turn order,
+ * drawing, every kind of move, the nugget draft and scoring. Server rooms and
+ * local tables both build on it and only add how they seat, time and announce.
+ * They hear about the lifecycle through the optional `on...` hooks.
+ */
+export class GameTable<P extends TablePlayer = TablePlayer> {
+  players = new Map<string, P>();
+  // A table may fix a seed that decides all its games; otherwise each game gets a fresh one
+  fixedSeed?: number;
+  gamesStarted = 0;
+  // Every shuffle and deal draws from the table's own generator, restarted from each game's
+  // seed so that any game can be dealt again
+  seed: number;
+  random: Random;
+  // Bots decide from a generator of their own, so how long anyone takes to move never changes a deal
+  botRandom: Random;
+  board: BoardState;
+  deck: CardInstance[];
+  discard: CardInstance[] = [];
+  nuggetSupply: number[];
+  nuggetDraft?: NuggetDraft;
+  roundEnded = false;
+  roundNumber = 1;
+  phase: GamePhase = 'lobby';
+  metrics: VisualizationMetrics;
+  lastWinnerId?: string;
+  lastWinningTeam?: Role;
+  lastAwards: Record<string, number> = {};
+  lastWinners: string[] = [];
+
+  /** Someone new is to move. */
+  protected onTurnStarted?(): void;
+  /** The next miner is to pick from the nugget cards. */
+  protected onNuggetPick?(): void;
+  /** Nobody is on turn any more, so the turn clock and any pending bot move can stop. */
+  protected onTurnsOver?(): void;
+  /** The nugget draft is over or abandoned, so its clock can stop. */
+  protected onDraftOver?(): void;
+  /** A move or nugget pick has been played, with what a replay needs to know about it. */
+  protected onAction?(type: string, playerId: string, payload?: Record<string, unknown>): void;
+  protected onGameStarted?(): void;
+  /** Roles and hands are dealt and the opening board laid. */
+  protected onRoundDealt?(): void;
+  protected onRoundSettled?(awards: Record<string, number>): void;
+
+  constructor(fixedSeed?: number) {
+    this.fixedSeed = fixedSeed;
+    this.seed = this.nextGameSeed();
+    this.random = mulberry32(this.seed);
+    this.botRandom = mulberry32(deriveSeed(this.seed, 0));
+    this.board = createBoard(this.random);
+    this.deck = generateDeck(this.random);
+    this.nuggetSupply = createNuggetSupply(this.random);
+    this.metrics = freshMetrics({}, this.roundNumber, this.phase);
+    this.syncBoardTelemetry();
+  }
+
+  setPhase(phase: GamePhase) {
+    this.phase = phase;
+    this.metrics.phase = phase;
+  }
+
+  publicBoard() {
+    return redactBoard(this.board);
+  }
+
+  turnError(playerId: string) {
+    if (this.phase === 'lobby') return 'The game has not started yet';
+    if (this.phase !== 'playing') return 'The round is over';
+    if (this.metrics.activePlayerId !== playerId) return 'Not your turn';
+    return null;
+  }
+
+  cardsInHands() {
+    return [...this.players.values()].reduce((total, player) => total + player.hand.length, 0);
+  }
+
+  // Everyone who was dealt a role this round
+  dealtPlayers() {
+    return [...this.players.values()].flatMap((player) => (player.role ? [{ id: player.id, role: player.role }] : []));
+  }
+
+  drawCards(player: P, count: number) {
+    for (let i = 0; i < count; i += 1) {
+      const card = this.deck.pop();
+      if (!card) break;
+      player.hand.push(card);
+    }
+    this.metrics.deckRemaining = this.deck.length;
+  }
+
+  adjustSuspicion(playerId: string, delta: number) {
+    const current = this.metrics.suspicionByPlayer[playerId] ?? 0;
+    this.metrics.suspicionByPlayer[playerId] = Math.min(1, Math.max(0, current + delta));
+  }
+
+  advanceTurn() {
+    const ids = [...this.players.keys()];
+    // Dwarves with empty hands sit out the rest of the round
+    const holders = ids.filter((id) => this.players.get(id)!.hand.length > 0);
+    if (this.phase !== 'playing' || holders.length === 0) {
+      this.metrics.activePlayerId = undefined;
+      this.metrics.turnEndsAt = undefined;
+      this.onTurnsOver?.();
+      return;
+    }
+    let index = ids.indexOf(this.metrics.activePlayerId ?? '');
+    do {
+      index = (index + 1) % ids.length;
+    } while (!holders.includes(ids[index]));
+    this.metrics.activePlayerId = ids[index];
+    this.onTurnStarted?.();
+  }
+
+  /**
+   * Ends a move once its card is played and the board synced: the mover draws,
+   * the round may end and play passes on. `placerId` reached the gold, if anyone.
+   */
+  endTurn(player: P, placerId?: string) {
+    this.metrics.turnsTaken += 1;
+    this.drawCards(player, 1);
+    this.maybeDeclareSaboteurWin();
+    this.maybeFinishRound(placerId);
+    this.advanceTurn();
+  }
+
+  // Takes a played card out of its owner's hand and onto the discard pile
+  spendCard(player: P, card: CardInstance) {
+    player.hand = player.hand.filter((c) => c.instanceId !== card.instanceId);
+    this.discard.push(card);
+  }
+
+  placeCard(
+    playerId: string,
+    { cardInstanceId, targetTileId, rotation }: { cardInstanceId: string; targetTileId: string; rotation: number },
+  ): MoveResult {
+    const turnError = this.turnError(playerId);
+    if (turnError) return { error: turnError };
+    const endedBefore = this.roundEnded;
+    const player = this.players.get(playerId);
+    if (!player) return { error: 'Unknown player' };
+    if (!canDig(player.brokenTools)) return { error: 'Repair your broken tools before digging' };
+    const card = player.hand.find((c) => c.instanceId === cardInstanceId);
+    if (!card) return { error: 'Card not available' };
+    const placement = checkPlacement(this.board, card.cardKey, targetTileId, rotation);
+    if (placement.error !== undefined) return { error: placement.error };
+    const prevProgress = this.metrics.progress;
+    this.board = placePathCard(this.board, {
+      targetTileId,
+      cardKey: card.cardKey,
+      rotation,
+      connectors: placement.connectors,
+      ownerId: playerId,
+    });
+    // Goals reached by the new card flip before anyone draws, so a last-card breakthrough still counts
+    this.syncBoardTelemetry();
+    this.onAction?.('place', playerId, { tileId: targetTileId, cardKey: card.cardKey, rotation, connectors: placement.connectors });
+    this.spendCard(player, card);
+    this.adjustSuspicion(playerId, -0.05);
+    const deltaProgress = this.metrics.progress - prevProgress;
+    this.metrics.efficiencyByPlayer[playerId] = (this.metrics.efficiencyByPlayer[playerId] ?? 0) + deltaProgress;
+    this.endTurn(player, playerId);
+    return { success: true, roundEnded: !endedBefore && this.roundEnded };
+  }
+
+  triggerRockfall(playerId: string, tileId: string): MoveResult {
+    const turnError = this.turnError(playerId);
+    if (turnError) return { error: turnError };
+    const endedBefore = this.roundEnded;
+    const player = this.players.get(playerId);
+    if (!player) return { error: 'Unknown player' };
+    const card = player.hand.find((c) => c.cardKey === 'rockfall');
+    if (!card) return { error: 'No rockfall card' };
+    const check = checkRockfall(this.board, tileId);
+    if (check.error) return { error: check.error };
+    this.board = collapseTile(this.board, tileId);
+    this.syncBoardTelemetry();
+    this.onAction?.('rockfall', playerId, { tileId });
+    this.spendCard(player, card);
+    this.metrics.collapsedTiles += 1;
+    this.adjustSuspicion(playerId, 0.15);
+    this.endTurn(player);
+    return { success: true, roundEnded: !endedBefore && this.roundEnded };
+  }
+
+  applyToolEffect(
+    actorId: string,
+    { targetPlayerId, cardKey, tool }: { targetPlayerId: string; cardKey: string; tool?: Tool },
+  ): MoveResult {
+    const turnError = this.turnError(actorId);
+    if (turnError) return { error: turnError };
+    const endedBefore = this.roundEnded;
+    const actor = this.players.get(actorId);
+    const target = this.players.get(targetPlayerId);
+    if (!actor || !target) return { error: 'Players missing' };
+    const card = actor.hand.find((c) => c.cardKey === cardKey);
+    if (!card) return { error: 'Card missing' };
+    const effect = resolveToolEffect(cardKey, target.brokenTools, tool);
+    if (effect.error !== undefined) return { error: effect.error };
+    target.brokenTools = effect.brokenTools;
+    this.onAction?.('tool', actorId, { targetPlayerId, cardKey, tool: tool ?? null, brokenTools: effect.brokenTools });
+    this.adjustSuspicion(actorId, CARD_LIBRARY[cardKey].category === 'break' ? 0.12 : -0.04);
+    this.spendCard(actor, card);
+    this.endTurn(actor);
+    return { success: true, roundEnded: !endedBefore && this.roundEnded };
+  }
+
+  peekGoal(playerId: string, { cardInstanceId, targetTileId }: { cardInstanceId: string; targetTileId: string }): MoveResult {
+    const turnError = this.turnError(playerId);
+    if (turnError) return { error: turnError };
+    const endedBefore = this.roundEnded;
+    const player = this.players.get(playerId);
+    if (!player) return { error: 'Unknown player' };
+    const card = player.hand.find((c) => c.instanceId === cardInstanceId);
+    if (!card || CARD_LIBRARY[card.cardKey]?.category !== 'map') return { error: 'No map card' };
+    const peek = checkMapPeek(this.board, targetTileId);
+    if (peek.error || !peek.cardKey) return { error: peek.error ?? 'Nothing to see there' };
+    player.peekedGoals[targetTileId] = peek.cardKey;
+    this.onAction?.('map', playerId, { tileId: targetTileId });
+    this.spendCard(player, card);
+    this.endTurn(player);
+    return { success: true, tileId: targetTileId, cardKey: peek.cardKey, roundEnded: !endedBefore && this.roundEnded };
+  }
+
+  discardCard(playerId: string, cardInstanceId: string): MoveResult {
+    const turnError = this.turnError(playerId);
+    if (turnError) return { error: turnError };
+    const endedBefore = this.roundEnded;
+    const player = this.players.get(playerId);
+    if (!player) return { error: 'Unknown player' };
+    const card = player.hand.find((c) => c.instanceId === cardInstanceId);
+    if (!card) return { error: 'Card not available' };
+    this.spendCard(player, card);
+    this.onAction?.('discard', playerId);
+    this.endTurn(player);
+    return { success: true, roundEnded: !endedBefore && this.roundEnded };
+  }
+
+  /** Plays any kind of turn from its move description, as sent by a client or chosen by a bot. */
+  applyMove(playerId: string, move: BotMove): MoveResult {
+    switch (move.type) {
+      case 'place':
+        return this.placeCard(playerId, move);
+      case 'rockfall':
+        return this.triggerRockfall(playerId, move.targetTileId);
+      case 'tool':
+        return this.applyToolEffect(playerId, move);
+      case 'map':
+        return this.peekGoal(playerId, move);
+      case 'discard':
+        return this.discardCard(playerId, move.cardInstanceId);
+      default:
+        return { error: 'Unknown move' };
+    }
+  }
+
+  /**
+   * Plays the move a computer player picks for `botId`'s seat, from what that seat
+   * can see. Should the rules refuse it after all, the bot passes rather than stall the table.
+   */
+  playBotMove(botId: string, difficulty: BotDifficulty) {
+    const bot = this.players.get(botId);
+    if (!bot?.role || this.turnError(botId)) return undefined;
+    let move = chooseBotMove(
+      {
+        selfId: bot.id,
+        role: bot.role,
+        hand: bot.hand,
+        board: this.publicBoard(),
+        peekedGoals: bot.peekedGoals,
+        players: [...this.players.values()].map((player) => ({
+          id: player.id,
+          brokenTools: player.brokenTools,
+          gold: this.metrics.goldByPlayer[player.id] ?? 0,
+          suspicion: this.metrics.suspicionByPlayer[player.id] ?? 0,
+        })),
+        difficulty,
+      },
+      this.botRandom,
+    );
+    if (!move) return undefined;
+    let result = this.applyMove(botId, move);
+    if (result.error !== undefined && bot.hand.length) {
+      move = { type: 'discard', cardInstanceId: bot.hand[0].instanceId };
+      result = this.applyMove(botId, move);
+    }
+    return { move, result };
+  }
+
+  syncBoardTelemetry() {
+    const { board, progress } = revealReachedGoals(this.board);
+    this.board = board;
+    this.metrics.progress = progress;
+    this.maybeDeclareSaboteurWin();
+    this.metrics.deckRemaining = this.deck.length;
+  }
+
+  maybeDeclareSaboteurWin() {
+    if (saboteursWin(this.board, this.deck.length, this.cardsInHands())) {
+      this.board = { ...this.board, winningTeam: 'saboteur' };
+    }
+  }
+
+  applyRoundRewards() {
+    const goldByPlayer = { ...this.metrics.goldByPlayer };
+    const { awards, winners } = scoreRound({
+      winningTeam: this.board.winningTeam,
+      players: this.dealtPlayers(),
+      nuggetPicks: this.nuggetDraft?.picks ?? [],
+    });
+    Object.entries(awards).forEach(([id, value]) => {
+      const player = this.players.get(id);
+      if (player) player.score = (player.score || 0) + value;
+      goldByPlayer[id] = (goldByPlayer[id] || 0) + value;
+    });
+    this.metrics.goldByPlayer = goldByPlayer;
+    return { awards, winners };
+  }
+
+  maybeFinishRound(placerId?: string) {
+    if (this.roundEnded || !this.board.winningTeam) return;
+    this.roundEnded = true;
+    this.metrics.activePlayerId = undefined;
+    this.metrics.turnEndsAt = undefined;
+    this.onTurnsOver?.();
+    this.lastWinnerId = placerId;
+    this.lastWinningTeam = this.board.winningTeam;
+    if (this.board.winningTeam === 'miner' && this.startNuggetDraft(placerId)) return;
+    this.settleRound();
+  }
+
+  settleRound() {
+    this.onDraftOver?.();
+    this.setPhase(this.roundNumber >= ROUNDS_PER_GAME ? 'gameOver' : 'roundOver');
+    const { awards, winners } = this.applyRoundRewards();
+    this.lastAwards = awards;
+    this.lastWinners = winners;
+    this.onRoundSettled?.(awards);
+  }
+
+  startNuggetDraft(placerId?: string) {
+    // 28 cards last three rounds at up to nine dwarves; ten who see the miners win every round
+    // find 8 left for the third, and the miners share what there is
+    const cards = this.nuggetSupply.splice(0, this.players.size);
+    const order = nuggetPickOrder({ players: this.dealtPlayers(), placerId, cardCount: cards.length });
+    if (!order.length) return false;
+    this.nuggetDraft = { cards, order, picks: [] };
+    this.setPhase('nuggets');
+    this.onNuggetPick?.();
+    return true;
+  }
+
+  nuggetPickerId() {
+    return this.nuggetDraft?.order[this.nuggetDraft.picks.length];
+  }
+
+  chooseNugget(playerId: string, index: number): { success: true; error?: undefined } | { error: string } {
+    if (this.phase !== 'nuggets' || !this.nuggetDraft) return { error: 'No gold to divide' };
+    if (this.nuggetPickerId() !== playerId) return { error: 'Not your pick' };
+    const { cards, picks } = this.nuggetDraft;
+    if (!Number.isInteger(index) || index < 0 || index >= cards.length) return { error: 'No such nugget card' };
+    const [value] = cards.splice(index, 1);
+    picks.push({ playerId, value });
+    this.onAction?.('nugget', playerId, { value });
+    if (cards.length) this.onNuggetPick?.();
+    else this.settleRound();
+    return { success: true };
+  }
+
+  /** Picks the richest card left for the miner whose turn it is, as bots and idle miners get. */
+  pickRichestNugget() {
+    const { cards } = this.nuggetDraft!;
+    return this.chooseNugget(this.nuggetPickerId()!, cards.indexOf(Math.max(...cards)));
+  }
+
+  // Copies, since a client store tells updates apart by reference
+  nuggetDraftState() {
+    const { cards, order, picks, endsAt } = this.nuggetDraft!;
+    return { cards: [...cards], order: [...order], picks: [...picks], pickerId: this.nuggetPickerId(), endsAt };
+  }
+
+  revealRoles() {
+    return Object.fromEntries(this.dealtPlayers().map((player) => [player.id, player.role]));
+  }
+
+  finalStandings() {
+    const ids = [...this.players.keys()];
+    const standings = [...this.players.values()]
+      .map((player) => ({ id: player.id, name: player.name, gold: this.metrics.goldByPlayer[player.id] ?? 0 }))
+      .sort((a, b) => b.gold - a.gold);
+    return { winners: overallWinners(this.metrics.goldByPlayer, ids), standings, rounds: this.roundNumber };
+  }
+
+  /** Deals the next round, or a whole new game once the last round is over. */
+  nextRound(): { success: true; error?: undefined } | { error: string } {
+    if (this.phase !== 'roundOver' && this.phase !== 'gameOver') {
+      return { error: this.phase === 'lobby' ? 'The game has not started yet' : 'The round is still in progress' };
+    }
+    if (this.phase === 'gameOver') {
+      this.startNewGame();
+    } else {
+      this.resetRoom();
+    }
+    return { success: true };
+  }
+
+  // A fixed seed gives each game its own seed by its number at the table, so no two games deal
+  // alike; never one derived from an earlier game, whose seed and log are public once it ends
+  nextGameSeed() {
+    return this.fixedSeed === undefined ? randomSeed() : deriveSeed(this.fixedSeed, this.gamesStarted);
+  }
+
+  startNewGame() {
+    this.seed = this.nextGameSeed();
+    this.gamesStarted += 1;
+    this.random = mulberry32(this.seed);
+    this.botRandom = mulberry32(deriveSeed(this.seed, 0));
+    // Gold is only carried between rounds of the same game
+    this.roundNumber = 0;
+    this.metrics.goldByPlayer = {};
+    this.nuggetSupply = createNuggetSupply(this.random);
+    this.players.forEach((player) => {
+      player.score = 0;
+    });
+    this.onGameStarted?.();
+    this.resetRoom();
+  }
+
+  resetRoom() {
+    this.onTurnsOver?.();
+    this.onDraftOver?.();
+    this.board = createBoard(this.random);
+    this.deck = generateDeck(this.random);
+    this.discard = [];
+    this.roundEnded = false;
+    this.roundNumber += 1;
+    this.nuggetDraft = undefined;
+    this.lastAwards = {};
+    this.lastWinners = [];
+    this.lastWinnerId = undefined;
+    this.lastWinningTeam = undefined;
+    this.phase = 'playing';
+    this.metrics = freshMetrics({ ...this.metrics.goldByPlayer }, this.roundNumber, this.phase);
+
+    // Deal every role at once, and size hands to the table
+    const roles = roleDistribution(this.players.size, this.random);
+    const cardsPerHand = handSize(this.players.size);
+    [...this.players.values()].forEach((player, index) => {
+      Object.assign(player, { role: roles[index], hand: [], peekedGoals: {}, brokenTools: [] });
+      // Everyone starts above suspicion; only what they play in front of the table moves it
+      this.metrics.suspicionByPlayer[player.id] = 0;
+      this.drawCards(player, cardsPerHand);
+    });
+    this.syncBoardTelemetry();
+    this.metrics.activePlayerId = [...this.players.keys()][0];
+    this.onRoundDealt?.();
+    if (this.metrics.activePlayerId) this.onTurnStarted?.();
+  }
+}
@@ -0,0 +1,31 @@
+import type { Tool } from './cards';
+import { CARD_LIBRARY, TOOLS } from './cards';
+
+/**
+ * Works out a dwarf's broken tools after a break or repair card is played on them.
+ * Repairs must match a broken tool; `tool` picks which one a two-tool repair mends.
+ */
+export const resolveToolEffect = (
+  cardKey: string,
+  brokenTools: Tool[],
+  tool?: Tool,
+): { brokenTools: Tool[]; error?: undefined } | { error: string } => {
+  const def = CARD_LIBRARY[cardKey];
+  const cardTools = def?.tools ?? [];
+  if (def?.category === 'break') {
+    const [target] = cardTools;
+    if (brokenTools.includes(target)) return { error: `Their ${target} is already broken` };
+    return { brokenTools: TOOLS.filter((t) => t === target || brokenTools.includes(t)) };
+  }
+  if (def?.category === 'repair') {
+    const candidates = cardTools.filter((t) => brokenTools.includes(t));
+    if (tool && !cardTools.includes(tool)) return { error: `That card cannot repair a ${tool}` };
+    const fixed = tool ?? candidates[0];
+    if (!fixed || !brokenTools.includes(fixed)) return { error: 'That repair does not match a broken tool' };
+    return { brokenTools: brokenTools.filter((t) => t !== fixed) };
+  }
+  return { error: 'Not a tool card' };
+};
+
+/** Dwarves can only dig while all of their tools are intact. */
+export const canDig = (brokenTools: Tool[]) => brokenTools.length === 0;